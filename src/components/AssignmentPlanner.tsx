@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import {
+  assignmentLoads,
+  assignmentsToCsv,
+  generateAssignments,
+  hasConflict,
+  isAssigned,
+  toggleAssignment
+} from '@/lib/assignments'
+import type { AssignmentPlan, Judge, SavedEvaluation, Submission } from '@/types'
+import { AlertTriangle, Download, Shuffle } from 'lucide-react'
+
+interface AssignmentPlannerProps {
+  plan: AssignmentPlan
+  submissions: Submission[]
+  judges: Judge[]
+  evaluations: SavedEvaluation[]
+  onChange: (plan: AssignmentPlan) => void
+  readOnly: boolean
+}
+
+/**
+ * Generate, hand-edit and export which judges score which games
+ */
+export function AssignmentPlanner({ plan, submissions, judges, evaluations, onChange, readOnly }: AssignmentPlannerProps) {
+  const [issues, setIssues] = useState<string[]>([])
+  const loads = assignmentLoads(plan.assignments)
+  const hasScored = (judgeId: string, submissionId: string) =>
+    evaluations.some(e => e.judgeId === judgeId && e.submissionId === submissionId)
+
+  const handleGenerate = () => {
+    if (plan.assignments.some(a => !a.pinned) &&
+      !confirm('Regenerate the plan? Assignments you did not set by hand will be redistributed.')) return
+    const generated = generateAssignments(submissions, judges, plan.judgesPerSubmission, plan)
+    setIssues(generated.issues)
+    onChange(generated.plan)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([assignmentsToCsv(plan, submissions, judges)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `judge-assignments-${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2">Judge Assignments</h2>
+        <p className="text-gray-400">Decide which judges score which games</p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="judgesPerSubmission" className="text-gray-200">Judges per game</Label>
+          <Input
+            id="judgesPerSubmission"
+            type="number"
+            min="1"
+            value={plan.judgesPerSubmission}
+            disabled={readOnly}
+            onChange={(e) => onChange({ ...plan, judgesPerSubmission: Math.max(1, Number(e.target.value)) })}
+            className="w-24 bg-gray-900 border-gray-700 text-white"
+          />
+        </div>
+        <Button
+          onClick={handleGenerate}
+          disabled={readOnly || submissions.length === 0 || judges.length === 0}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          <Shuffle className="h-4 w-4 mr-2" />
+          Generate Balanced Plan
+        </Button>
+        <Button
+          onClick={handleExport}
+          variant="outline"
+          disabled={plan.assignments.length === 0}
+          className="ml-auto border-gray-700 text-gray-200 hover:bg-gray-800"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {issues.length > 0 && (
+        <Alert className="bg-orange-500/10 border-orange-500/30">
+          <AlertTriangle className="h-4 w-4 text-orange-400" />
+          <AlertTitle className="text-orange-400">Not enough eligible judges</AlertTitle>
+          <AlertDescription className="text-orange-300">{issues.join(' · ')}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-gray-200">Assignment Matrix</CardTitle>
+          <CardDescription className="text-gray-400">
+            Tick a cell to assign by hand; hand-set assignments survive regeneration. Conflicted and unavailable judges can't be assigned.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {submissions.length === 0 || judges.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              Register submissions and add judges to plan assignments.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                    <TableHead className="text-gray-300">Game</TableHead>
+                    {judges.map((judge) => (
+                      <TableHead key={judge.id} className="text-gray-300 text-center">
+                        <div>{judge.name}</div>
+                        {judge.unavailable && <div className="text-xs text-gray-500">Unavailable</div>}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-gray-300 text-center">Judges</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {submissions.map((submission) => {
+                    const count = plan.assignments.filter(a => a.submissionId === submission.id).length
+                    return (
+                      <TableRow key={submission.id} className="border-gray-800">
+                        <TableCell>
+                          <div className="font-semibold text-white">{submission.gameName}</div>
+                          <div className="text-xs text-gray-400">{submission.teamName}</div>
+                        </TableCell>
+                        {judges.map((judge) => {
+                          const assigned = isAssigned(plan, judge.id, submission.id)
+                          const conflicted = hasConflict(judge, submission)
+                          return (
+                            <TableCell key={judge.id} className="text-center">
+                              {conflicted ? (
+                                <Badge className="bg-red-500/20 text-red-400 border-red-500/30">COI</Badge>
+                              ) : (
+                                <div className="flex items-center justify-center gap-1">
+                                  <Checkbox
+                                    checked={assigned}
+                                    disabled={readOnly || (judge.unavailable && !assigned)}
+                                    onCheckedChange={() => onChange(toggleAssignment(plan, judge.id, submission.id))}
+                                  />
+                                  {assigned && hasScored(judge.id, submission.id) && (
+                                    <span className="text-xs text-green-400">✓</span>
+                                  )}
+                                </div>
+                              )}
+                            </TableCell>
+                          )
+                        })}
+                        <TableCell className={cn(
+                          'text-center font-semibold',
+                          count < plan.judgesPerSubmission ? 'text-orange-400' : 'text-green-400'
+                        )}>
+                          {count}/{plan.judgesPerSubmission}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                  <TableRow className="border-gray-800 bg-gray-950">
+                    <TableCell className="font-semibold text-gray-300">Load</TableCell>
+                    {judges.map((judge) => (
+                      <TableCell key={judge.id} className="text-center text-gray-300">
+                        {loads[judge.id] || 0}
+                        {judge.maxAssignments ? ` / ${judge.maxAssignments}` : ''}
+                      </TableCell>
+                    ))}
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
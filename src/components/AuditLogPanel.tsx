@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { canUndo, AUDIT_ACTION_LABELS } from '@/lib/moderation'
+import type { AuditEntry } from '@/types'
+import { Undo2 } from 'lucide-react'
+
+interface AuditLogPanelProps {
+  entries: AuditEntry[]
+  onUndo: (auditId: string) => void
+  readOnly: boolean
+}
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  delete: 'bg-red-500/20 text-red-400 border-red-500/30',
+  archive: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+  disqualify: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  restore: 'bg-green-500/20 text-green-400 border-green-500/30'
+}
+
+/**
+ * Leaderboard moderation history, newest first, with per-action undo
+ */
+export function AuditLogPanel({ entries, onUndo, readOnly }: AuditLogPanelProps) {
+  const sorted = [...entries].sort((a, b) => b.at.localeCompare(a.at))
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-gray-200">Audit Log</CardTitle>
+        <CardDescription className="text-gray-400">
+          Every delete, archive, disqualify and restore on this leaderboard
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">No moderation actions yet.</div>
+        ) : (
+          <ScrollArea className="max-h-[320px]">
+            <div className="space-y-2">
+              {sorted.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-start justify-between gap-4 p-3 rounded-lg border border-gray-800 bg-gray-950"
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge className={ACTION_STYLES[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                      <span className="font-semibold text-white">{entry.gameName}</span>
+                      <span className="text-gray-400">{entry.teamName}</span>
+                      {entry.undoneAt && (
+                        <Badge className="bg-gray-800 text-gray-400 border-gray-700">Undone</Badge>
+                      )}
+                    </div>
+                    {entry.reason && (
+                      <div className="text-sm text-gray-300">Reason: {entry.reason}</div>
+                    )}
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.at).toLocaleString()}
+                      {entry.actor && ` · ${entry.actor}`}
+                      {entry.undoneAt && ` · undone ${new Date(entry.undoneAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                  {canUndo(entries, entry) && !readOnly && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onUndo(entry.id)}
+                      className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
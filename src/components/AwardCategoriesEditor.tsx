@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AWARD_FORMULA_LABELS } from '@/lib/awards'
+import type { AwardCategory, AwardFormula, AwardSettings, CriterionDefinition } from '@/types'
+import { Plus, XCircle } from 'lucide-react'
+
+interface AwardCategoriesEditorProps {
+  awards: AwardSettings
+  criteria: CriterionDefinition[]
+  onChange: (awards: AwardSettings) => void
+}
+
+/**
+ * Define award categories, how each winner is chosen and who is eligible
+ */
+export function AwardCategoriesEditor({ awards, criteria, onChange }: AwardCategoriesEditorProps) {
+  const [newName, setNewName] = useState('')
+
+  const updateCategory = (id: string, patch: Partial<AwardCategory>) => {
+    onChange({ ...awards, categories: awards.categories.map(c => (c.id === id ? { ...c, ...patch } : c)) })
+  }
+
+  const handleAdd = () => {
+    const name = newName.trim()
+    if (!name) return
+    onChange({
+      ...awards,
+      categories: [
+        ...awards.categories,
+        { id: `award-${Date.now()}`, name, description: '', formula: 'manual', compliantOnly: true }
+      ]
+    })
+    setNewName('')
+  }
+
+  const handleRemove = (id: string) => {
+    onChange({ ...awards, categories: awards.categories.filter(c => c.id !== id) })
+  }
+
+  return (
+    <div className="space-y-4">
+      {awards.categories.map((category) => (
+        <div key={category.id} className="p-4 rounded-lg bg-gray-950 border border-gray-700 space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-gray-200">Name</Label>
+                <Input
+                  value={category.name}
+                  onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                  className="bg-gray-900 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-200">Winner chosen by</Label>
+                <Select
+                  value={category.formula}
+                  onValueChange={(value) => updateCategory(category.id, { formula: value as AwardFormula })}
+                >
+                  <SelectTrigger className="bg-gray-900 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {(Object.keys(AWARD_FORMULA_LABELS) as AwardFormula[]).map((formula) => (
+                      <SelectItem key={formula} value={formula}>{AWARD_FORMULA_LABELS[formula]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="pt-7">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRemove(category.id)}
+                className="border-red-700 text-red-400 hover:bg-red-900/20"
+              >
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-200">Description</Label>
+            <Input
+              value={category.description}
+              onChange={(e) => updateCategory(category.id, { description: e.target.value })}
+              placeholder="What this award recognizes..."
+              className="bg-gray-900 border-gray-700 text-white"
+            />
+          </div>
+
+          {category.formula === 'criterion' && (
+            <div className="space-y-2">
+              <Label className="text-gray-200">Criterion</Label>
+              <Select
+                value={category.criterionId || ''}
+                onValueChange={(value) => updateCategory(category.id, { criterionId: value })}
+              >
+                <SelectTrigger className="bg-gray-900 border-gray-700 text-white">
+                  <SelectValue placeholder="Choose a criterion..." />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {criteria.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {category.formula === 'weighted' && (
+            <div className="space-y-2">
+              <Label className="text-gray-200">Criterion Weights</Label>
+              <div className="grid grid-cols-3 gap-3">
+                {criteria.map((c) => (
+                  <div key={c.id} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-gray-400 truncate">{c.label}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={category.weights?.[c.id] || 0}
+                      onChange={(e) => updateCategory(category.id, {
+                        weights: { ...category.weights, [c.id]: Math.max(0, Number(e.target.value)) }
+                      })}
+                      className="w-20 bg-gray-900 border-gray-700 text-white"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${category.id}-compliant`}
+                checked={category.compliantOnly}
+                onCheckedChange={(checked) => updateCategory(category.id, { compliantOnly: checked === true })}
+              />
+              <Label htmlFor={`${category.id}-compliant`} className="text-gray-200">
+                Rule-compliant games only
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-gray-200">Required tag</Label>
+              <Input
+                value={category.requiredTag || ''}
+                onChange={(e) => updateCategory(category.id, { requiredTag: e.target.value })}
+                placeholder="e.g. student"
+                className="w-40 bg-gray-900 border-gray-700 text-white"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Add an award..."
+          className="bg-gray-950 border-gray-700 text-white"
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <Button
+          onClick={handleAdd}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="one-winner-per-team"
+          checked={awards.oneWinnerPerTeam}
+          onCheckedChange={(checked) => onChange({ ...awards, oneWinnerPerTeam: checked === true })}
+        />
+        <Label htmlFor="one-winner-per-team" className="text-gray-200">
+          A team can win at most one award (manual picks first, then categories top to bottom)
+        </Label>
+      </div>
+    </div>
+  )
+}
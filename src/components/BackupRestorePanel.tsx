@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  parseBackup,
+  planRestore,
+  readBackupRecords,
+  COLLISION_POLICY_LABELS,
+  RESTORE_MODE_LABELS,
+  type BackupParseResult,
+  type BackupRecords,
+  type CollisionPolicy,
+  type EventBackup,
+  type RestoreMode,
+  type RestorePlan
+} from '@/lib/backup'
+import { isArchived } from '@/lib/events'
+import type { JamEvent } from '@/types'
+import { AlertCircle, AlertTriangle, Upload } from 'lucide-react'
+
+interface BackupRestorePanelProps {
+  events: JamEvent[]
+  activeEventId: string
+  locked: boolean
+  onRestore: (backup: EventBackup, plan: RestorePlan) => Promise<void>
+}
+
+/**
+ * Load a backup file, choose where it lands, preview the changes and restore
+ */
+export function BackupRestorePanel({ events, activeEventId, locked, onRestore }: BackupRestorePanelProps) {
+  const [parsed, setParsed] = useState<BackupParseResult | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('new_event')
+  const [policy, setPolicy] = useState<CollisionPolicy>('keep_existing')
+  const [current, setCurrent] = useState<BackupRecords | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  const backup = parsed?.backup || null
+  const sourceEvent = backup ? events.find(e => e.id === backup.event.id) : undefined
+  const activeEvent = events.find(e => e.id === activeEventId)
+  const availableModes: RestoreMode[] = [
+    'new_event',
+    // Archived events are read-only, so a backup can't overwrite one
+    ...(sourceEvent && !isArchived(sourceEvent) ? ['replace' as const] : []),
+    ...(activeEvent && !isArchived(activeEvent) ? ['merge' as const] : [])
+  ]
+  const targetId = mode === 'replace' ? sourceEvent?.id : mode === 'merge' ? activeEvent?.id : undefined
+
+  // The preview needs the target's records as they are now
+  useEffect(() => {
+    if (!targetId) {
+      setCurrent({})
+      return
+    }
+    let cancelled = false
+    setCurrent(null)
+    readBackupRecords(targetId).then(records => {
+      if (!cancelled) setCurrent(records)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [targetId])
+
+  const plan = backup && current ? planRestore(backup, current, mode, policy) : null
+
+  const handleFile = async (file: File) => {
+    const result = parseBackup(await file.text())
+    setParsed(result)
+    setMode('new_event')
+  }
+
+  const handleRestore = async () => {
+    if (!backup || !plan) return
+    if (mode === 'replace' && !confirm(`Replace all data in "${sourceEvent?.settings.eventName}" with this backup? This cannot be undone.`)) return
+    setRestoring(true)
+    try {
+      await onRestore(backup, plan)
+      setParsed(null)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-gray-200">Restore from Backup</CardTitle>
+        <CardDescription className="text-gray-400">
+          Backups hold an event's settings, criteria, judges, submissions, score sheets and audit log
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Label className="inline-flex items-center gap-2 px-4 h-10 rounded-md border border-gray-700 text-gray-200 hover:bg-gray-800 cursor-pointer">
+          <Upload className="h-4 w-4" />
+          Choose Backup File
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ''
+            }}
+          />
+        </Label>
+
+        {parsed && parsed.errors.length > 0 && (
+          <Alert className="bg-red-500/10 border-red-500/30">
+            <AlertCircle className="h-4 w-4 text-red-400" />
+            <AlertTitle className="text-red-400">This file cannot be restored</AlertTitle>
+            <AlertDescription className="text-red-300">
+              <ul className="list-disc pl-4">
+                {parsed.errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {parsed && parsed.warnings.length > 0 && (
+          <Alert className="bg-orange-500/10 border-orange-500/30">
+            <AlertTriangle className="h-4 w-4 text-orange-400" />
+            <AlertTitle className="text-orange-400">Some items will be left out</AlertTitle>
+            <AlertDescription className="text-orange-300">
+              <ul className="list-disc pl-4">
+                {parsed.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {backup && (
+          <>
+            <div className="text-sm text-gray-300">
+              <span className="font-semibold text-white">{backup.eventSettings.eventName}</span>
+              {' '}backed up {new Date(backup.exportedAt).toLocaleString()}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label className="text-gray-200">Restore as</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                  <SelectTrigger className="w-[260px] bg-gray-900 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-900 border-gray-700">
+                    {availableModes.map((m) => (
+                      <SelectItem key={m} value={m}>{RESTORE_MODE_LABELS[m]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {mode === 'merge' && (
+                <div className="space-y-2">
+                  <Label className="text-gray-200">When a record exists in both</Label>
+                  <Select value={policy} onValueChange={(value) => setPolicy(value as CollisionPolicy)}>
+                    <SelectTrigger className="w-[220px] bg-gray-900 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-900 border-gray-700">
+                      {(Object.keys(COLLISION_POLICY_LABELS) as CollisionPolicy[]).map((p) => (
+                        <SelectItem key={p} value={p}>{COLLISION_POLICY_LABELS[p]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <Button
+                onClick={handleRestore}
+                disabled={!plan || locked || restoring}
+                className="bg-purple-600 hover:bg-purple-700"
+              >
+                {restoring ? 'Restoring...' : 'Restore'}
+              </Button>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {mode === 'new_event'
+                ? 'Creates a separate event; nothing here is changed.'
+                : mode === 'replace'
+                  ? `Overwrites "${sourceEvent?.settings.eventName}", including its settings and criteria.`
+                  : `Adds to "${activeEvent?.settings.eventName}" and keeps its settings and criteria. Submissions already registered under another id keep that id.`}
+            </p>
+
+            {plan ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                      <TableHead className="text-gray-300"></TableHead>
+                      <TableHead className="text-gray-300 text-right">Added</TableHead>
+                      <TableHead className="text-gray-300 text-right">Updated</TableHead>
+                      <TableHead className="text-gray-300 text-right">Unchanged</TableHead>
+                      <TableHead className="text-gray-300 text-right">Skipped</TableHead>
+                      <TableHead className="text-gray-300 text-right">Removed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.counts.map((count) => (
+                      <TableRow key={count.label} className="border-gray-800 hover:bg-gray-800/50">
+                        <TableCell className="text-gray-200">{count.label}</TableCell>
+                        <TableCell className="text-right text-green-400">{count.added}</TableCell>
+                        <TableCell className="text-right text-cyan-400">{count.updated}</TableCell>
+                        <TableCell className="text-right text-gray-400">{count.unchanged}</TableCell>
+                        <TableCell className="text-right text-orange-400">{count.skipped}</TableCell>
+                        <TableCell className="text-right text-red-400">{count.removed}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">Reading the target event...</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
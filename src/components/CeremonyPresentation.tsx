@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import type { AwardResult } from '@/lib/awards'
+import { ceremonySlides, DEFAULT_CEREMONY_OPTIONS, type CeremonyOptions, type CeremonySlide } from '@/lib/ceremony'
+import type { RankedEntry } from '@/lib/ranking'
+import type { EventSettings } from '@/types'
+import { Award, ChevronLeft, ChevronRight, Maximize, Medal, Trophy, X } from 'lucide-react'
+
+interface CeremonyPresentationProps {
+  ranked: RankedEntry[]
+  awards: AwardResult[]
+  eventSettings: EventSettings
+  onExit: () => void
+}
+
+// Reveal choices offered on the title slide; 0 reveals every rank
+const TOP_COUNT_CHOICES = [0, 10, 5, 3]
+
+const PLACE_COLORS = ['text-yellow-400', 'text-gray-300', 'text-orange-400']
+
+function placeColor(rank: number): string {
+  return PLACE_COLORS[rank - 1] || 'text-purple-400'
+}
+
+function rankLabel(rank: number): string {
+  const suffix = rank % 100 >= 11 && rank % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][rank % 10] || 'th'
+  return `${rank}${suffix} Place`
+}
+
+function EntryCard({ ranked, large }: { ranked: RankedEntry; large: boolean }) {
+  const { entry } = ranked
+  return (
+    <div className="space-y-3">
+      <div className={cn('font-bold text-white', large ? 'text-6xl' : 'text-4xl')}>{entry.result.game_name}</div>
+      <div className={cn('text-gray-300', large ? 'text-3xl' : 'text-2xl')}>{entry.result.team_name}</div>
+      <div className={cn('font-bold text-cyan-400', large ? 'text-5xl' : 'text-3xl')}>
+        {entry.result.percentage_score.toFixed(1)}%
+      </div>
+      {large && entry.result.summary && (
+        <p className="text-xl text-gray-400 max-w-4xl mx-auto leading-relaxed">{entry.result.summary}</p>
+      )}
+    </div>
+  )
+}
+
+function SlideContent({ slide }: { slide: CeremonySlide }) {
+  if (slide.kind === 'title') {
+    return (
+      <div className="space-y-6">
+        <Trophy className="h-24 w-24 mx-auto text-yellow-400" />
+        <div className="text-7xl font-bold text-white">{slide.eventName}</div>
+        <div className="text-3xl text-gray-400">{slide.themeDescription}</div>
+        <div className="text-xl text-gray-500">{slide.entryCount} ranked {slide.entryCount === 1 ? 'game' : 'games'}</div>
+      </div>
+    )
+  }
+
+  if (slide.kind === 'award') {
+    const { category, winner } = slide.award
+    return (
+      <div className="space-y-8">
+        <div className="space-y-3">
+          <Award className="h-20 w-20 mx-auto text-yellow-400" />
+          <div className="text-5xl font-bold text-yellow-400">{category.name}</div>
+          {category.description && <div className="text-2xl text-gray-400">{category.description}</div>}
+        </div>
+        <div className="space-y-3">
+          <div className="text-6xl font-bold text-white">{winner.entry.result.game_name}</div>
+          <div className="text-3xl text-gray-300">{winner.entry.result.team_name}</div>
+          {winner.score !== null && <div className="text-4xl font-bold text-cyan-400">{winner.score.toFixed(1)}%</div>}
+          {winner.entry.result.summary && (
+            <p className="text-xl text-gray-400 max-w-4xl mx-auto leading-relaxed">{winner.entry.result.summary}</p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (slide.kind === 'rank') {
+    const tied = slide.entries.length > 1
+    return (
+      <div className="space-y-10">
+        <div className={cn('text-5xl font-bold', placeColor(slide.rank))}>
+          {rankLabel(slide.rank)}{tied ? ' (tie)' : ''}
+        </div>
+        <div className={cn('grid gap-12', tied ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1')}>
+          {slide.entries.map((ranked) => (
+            <EntryCard key={ranked.entry.key} ranked={ranked} large={!tied} />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-12">
+      <div className="text-5xl font-bold text-white">Final Standings</div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-10 items-end">
+        {slide.places.map((group) => (
+          <div key={group[0].rank} className="space-y-4">
+            <Medal className={cn('h-16 w-16 mx-auto', placeColor(group[0].rank))} />
+            <div className={cn('text-3xl font-bold', placeColor(group[0].rank))}>{rankLabel(group[0].rank)}</div>
+            {group.map(({ entry }) => (
+              <div key={entry.key}>
+                <div className="text-3xl font-bold text-white">{entry.result.game_name}</div>
+                <div className="text-xl text-gray-400">{entry.result.team_name}</div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Full-screen awards ceremony: category awards, then ranks from last to first.
+ * Arrow keys, space and page keys step through; F toggles full screen and
+ * Escape leaves
+ */
+export function CeremonyPresentation({ ranked, awards, eventSettings, onExit }: CeremonyPresentationProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [options, setOptions] = useState<CeremonyOptions>(DEFAULT_CEREMONY_OPTIONS)
+  const [index, setIndex] = useState(0)
+
+  const slides = ceremonySlides(ranked, awards, eventSettings, options)
+  const slide = slides[Math.min(index, slides.length - 1)]
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined)
+    else containerRef.current?.requestFullscreen().catch(() => undefined)
+  }
+
+  const exit = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined)
+    onExit()
+  }
+
+  // The handler is replaced every render so it always sees the current slide count
+  const handleKeyRef = useRef<(e: KeyboardEvent) => void>()
+  handleKeyRef.current = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLElement && e.target.closest('input, [role="checkbox"]')) return
+    const last = slides.length - 1
+    if (['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'].includes(e.key)) setIndex(i => Math.min(i + 1, last))
+    else if (['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'].includes(e.key)) setIndex(i => Math.max(i - 1, 0))
+    else if (e.key === 'Home') setIndex(0)
+    else if (e.key === 'End') setIndex(last)
+    else if (e.key === 'f' || e.key === 'F') toggleFullscreen()
+    else if (e.key === 'Escape') exit()
+    else return
+    e.preventDefault()
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => handleKeyRef.current?.(e)
+    window.addEventListener('keydown', onKeyDown)
+    containerRef.current?.requestFullscreen().catch(() => undefined)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-[100] bg-gray-950 flex flex-col">
+      <div className="flex-1 flex items-center justify-center px-12 py-16 text-center overflow-y-auto">
+        <div key={index} className="w-full animate-in fade-in zoom-in-95 duration-700">
+          <SlideContent slide={slide} />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 px-6 py-3 border-t border-gray-900 text-gray-500">
+        {index === 0 ? (
+          <div className="flex items-center gap-4">
+            {/* Plain buttons: popovers render outside the full-screen element and would not show */}
+            <div className="flex items-center gap-1">
+              {TOP_COUNT_CHOICES.map((count) => (
+                <Button
+                  key={count}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setOptions(prev => ({ ...prev, topCount: count }))}
+                  className={cn(
+                    'hover:text-white',
+                    options.topCount === count ? 'bg-gray-800 text-white' : 'text-gray-500'
+                  )}
+                >
+                  {count === 0 ? 'Every rank' : `Top ${count}`}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="ceremony-awards"
+                checked={options.includeAwards}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeAwards: checked === true }))}
+              />
+              <Label htmlFor="ceremony-awards" className="text-gray-400">Category awards</Label>
+            </div>
+          </div>
+        ) : (
+          <span className="text-sm">← → to step · F full screen · Esc to leave</span>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-sm tabular-nums">{index + 1} / {slides.length}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIndex(i => Math.max(i - 1, 0))}
+            disabled={index === 0}
+            className="text-gray-400 hover:text-white"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIndex(i => Math.min(i + 1, slides.length - 1))}
+            disabled={index >= slides.length - 1}
+            className="text-gray-400 hover:text-white"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={toggleFullscreen} className="text-gray-400 hover:text-white">
+            <Maximize className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={exit} className="text-gray-400 hover:text-white">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { createConflict, describeConflict, CONFLICT_KIND_LABELS } from '@/lib/conflicts'
+import type { ConflictDeclaration, Submission } from '@/types'
+import { Plus, XCircle } from 'lucide-react'
+
+interface ConflictDeclarationsEditorProps {
+  conflicts: ConflictDeclaration[]
+  submissions: Submission[]
+  onChange: (conflicts: ConflictDeclaration[]) => void
+}
+
+/**
+ * One judge's conflict-of-interest declarations
+ */
+export function ConflictDeclarationsEditor({ conflicts, submissions, onChange }: ConflictDeclarationsEditorProps) {
+  const [kind, setKind] = useState<ConflictDeclaration['kind']>('team')
+  const [value, setValue] = useState('')
+
+  const handleAdd = () => {
+    if (!value.trim()) return
+    onChange([...conflicts, createConflict(kind, value)])
+    setValue('')
+  }
+
+  return (
+    <div className="space-y-2">
+      {conflicts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {conflicts.map((conflict, index) => (
+            <Badge key={index} className="bg-red-500/20 text-red-400 border-red-500/30 gap-1">
+              {describeConflict(conflict, submissions)}
+              <button
+                type="button"
+                onClick={() => onChange(conflicts.filter((_, i) => i !== index))}
+                className="hover:text-white"
+              >
+                <XCircle className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Select
+          value={kind}
+          onValueChange={(next) => {
+            setKind(next as ConflictDeclaration['kind'])
+            setValue('')
+          }}
+        >
+          <SelectTrigger className="w-40 bg-gray-900 border-gray-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-900 border-gray-700">
+            {(Object.keys(CONFLICT_KIND_LABELS) as ConflictDeclaration['kind'][]).map((k) => (
+              <SelectItem key={k} value={k}>{CONFLICT_KIND_LABELS[k]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {kind === 'submission' ? (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className="flex-1 bg-gray-900 border-gray-700 text-white">
+              <SelectValue placeholder="Select submission" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-900 border-gray-700">
+              {submissions.map((s) => (
+                <SelectItem key={s.id} value={s.id}>{s.gameName} — {s.teamName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={kind === 'team' ? 'Team name...' : 'Member name...'}
+            className="flex-1 bg-gray-900 border-gray-700 text-white"
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          />
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={!value.trim()}
+          className="h-10 border-gray-700 text-gray-300 hover:bg-gray-800"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { criterionIdFromLabel, moveCriterion, nextRubricLevel } from '@/lib/criteria'
+import type { CriterionDefinition, RubricLevel } from '@/types'
+import { ArrowDown, ArrowUp, Plus, XCircle } from 'lucide-react'
+
+interface CriteriaEditorProps {
+  criteria: CriterionDefinition[]
+  onChange: (criteria: CriterionDefinition[]) => void
+}
+
+/**
+ * Add, remove, rename, reorder and re-weight judging criteria and edit their
+ * rubric level descriptors
+ */
+export function CriteriaEditor({ criteria, onChange }: CriteriaEditorProps) {
+  const [newLabel, setNewLabel] = useState('')
+
+  const updateCriterion = (id: string, patch: Partial<CriterionDefinition>) => {
+    onChange(criteria.map(c => (c.id === id ? { ...c, ...patch } : c)))
+  }
+
+  const updateLevel = (criterion: CriterionDefinition, index: number, patch: Partial<RubricLevel>) => {
+    updateCriterion(criterion.id, {
+      levels: (criterion.levels || []).map((level, i) => (i === index ? { ...level, ...patch } : level))
+    })
+  }
+
+  const handleAddLevel = (criterion: CriterionDefinition) => {
+    updateCriterion(criterion.id, { levels: [...(criterion.levels || []), nextRubricLevel(criterion)] })
+  }
+
+  const handleRemoveLevel = (criterion: CriterionDefinition, index: number) => {
+    updateCriterion(criterion.id, { levels: (criterion.levels || []).filter((_, i) => i !== index) })
+  }
+
+  const handleAdd = () => {
+    const label = newLabel.trim()
+    if (!label) return
+    onChange([
+      ...criteria,
+      { id: criterionIdFromLabel(label, criteria), label, description: '', scaleMin: 1, scaleMax: 10, weight: 0 }
+    ])
+    setNewLabel('')
+  }
+
+  const handleRemove = (id: string) => {
+    onChange(criteria.filter(c => c.id !== id))
+  }
+
+  return (
+    <div className="space-y-4">
+      {criteria.map((criterion, index) => (
+        <div key={criterion.id} className="p-4 rounded-lg bg-gray-950 border border-gray-700 space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-2">
+              <Label className="text-gray-200">Name</Label>
+              <Input
+                value={criterion.label}
+                onChange={(e) => updateCriterion(criterion.id, { label: e.target.value })}
+                className="bg-gray-900 border-gray-700 text-white"
+              />
+            </div>
+            <div className="flex gap-1 pt-7">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(moveCriterion(criteria, index, -1))}
+                disabled={index === 0}
+                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(moveCriterion(criteria, index, 1))}
+                disabled={index === criteria.length - 1}
+                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRemove(criterion.id)}
+                className="border-red-700 text-red-400 hover:bg-red-900/20"
+              >
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-200">Description</Label>
+            <Textarea
+              value={criterion.description}
+              onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+              rows={2}
+              placeholder="What judges should look for..."
+              className="bg-gray-900 border-gray-700 text-white"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-200">Scale Min</Label>
+              <Input
+                type="number"
+                min="0"
+                value={criterion.scaleMin}
+                onChange={(e) => updateCriterion(criterion.id, { scaleMin: Math.max(0, Number(e.target.value)) })}
+                className="bg-gray-900 border-gray-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-200">Scale Max</Label>
+              <Input
+                type="number"
+                min="1"
+                value={criterion.scaleMax}
+                onChange={(e) => updateCriterion(criterion.id, { scaleMax: Math.max(1, Number(e.target.value)) })}
+                className="bg-gray-900 border-gray-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-200">Weight</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={criterion.weight}
+                  onChange={(e) => updateCriterion(criterion.id, {
+                    weight: Math.max(0, Math.min(100, Number(e.target.value)))
+                  })}
+                  className="bg-gray-900 border-gray-700 text-white"
+                />
+                <span className="text-gray-400 min-w-[24px]">%</span>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-200">Rubric Levels</Label>
+            {(criterion.levels || []).map((level, levelIndex) => (
+              <div key={levelIndex} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  value={level.min}
+                  onChange={(e) => updateLevel(criterion, levelIndex, { min: Number(e.target.value) })}
+                  className="w-16 bg-gray-900 border-gray-700 text-white"
+                />
+                <span className="text-gray-500">–</span>
+                <Input
+                  type="number"
+                  value={level.max}
+                  onChange={(e) => updateLevel(criterion, levelIndex, { max: Number(e.target.value) })}
+                  className="w-16 bg-gray-900 border-gray-700 text-white"
+                />
+                <Input
+                  value={level.descriptor}
+                  onChange={(e) => updateLevel(criterion, levelIndex, { descriptor: e.target.value })}
+                  placeholder="What a score in this range means..."
+                  className="flex-1 bg-gray-900 border-gray-700 text-white"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRemoveLevel(criterion, levelIndex)}
+                  className="border-red-700 text-red-400 hover:bg-red-900/20"
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleAddLevel(criterion)}
+              className="border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Level
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="Add a criterion..."
+          className="bg-gray-950 border-gray-700 text-white"
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <Button
+          onClick={handleAdd}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
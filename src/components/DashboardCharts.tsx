@@ -0,0 +1,230 @@
+import { useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Pie,
+  PieChart,
+  PolarAngleAxis,
+  PolarGrid,
+  Radar,
+  RadarChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  complianceBreakdown,
+  criterionAverages,
+  criterionScatter,
+  evaluationsPerHour,
+  scoreHistogram,
+  type DashboardFilter
+} from '@/lib/dashboard'
+import type { AggregatedEvaluation, CriterionDefinition } from '@/types'
+
+interface DashboardChartsProps {
+  entries: AggregatedEvaluation[]
+  criteria: CriterionDefinition[]
+  onSelect: (filter: DashboardFilter) => void
+}
+
+const chartConfig = {
+  count: { label: 'Entries', color: '#a855f7' },
+  sheets: { label: 'Sheets', color: '#06b6d4' },
+  average: { label: 'Average (% of scale)', color: '#06b6d4' },
+  compliant: { label: 'Compliant', color: '#22c55e' },
+  nonCompliant: { label: 'Non-compliant', color: '#ef4444' }
+} satisfies ChartConfig
+
+/**
+ * Score, criterion, compliance and judging-pace charts; clicking a segment
+ * hands a leaderboard filter to `onSelect`
+ */
+export function DashboardCharts({ entries, criteria, onSelect }: DashboardChartsProps) {
+  const [xCriterionId, setXCriterionId] = useState(criteria[0]?.id || '')
+  const [yCriterionId, setYCriterionId] = useState(criteria[1]?.id || criteria[0]?.id || '')
+
+  const histogram = scoreHistogram(entries)
+  const averages = criterionAverages(entries, criteria)
+  const compliance = complianceBreakdown(entries).map(slice => ({
+    ...slice,
+    name: slice.compliant ? 'compliant' : 'nonCompliant'
+  }))
+  const hours = evaluationsPerHour(entries).map(bucket => ({ ...bucket, sheets: bucket.count }))
+  const xCriterion = criteria.find(c => c.id === xCriterionId)
+  const yCriterion = criteria.find(c => c.id === yCriterionId)
+  const points = xCriterion && yCriterion ? criterionScatter(entries, xCriterion, yCriterion) : []
+
+  if (entries.length === 0) return null
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-200">Score Distribution</CardTitle>
+          <CardDescription className="text-gray-400">Entries per percentage band</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={histogram}>
+              <CartesianGrid vertical={false} stroke="#374151" />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} angle={-30} textAnchor="end" height={50} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                dataKey="count"
+                fill="var(--color-count)"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(_, index) => {
+                  const bin = histogram[index]
+                  if (bin?.count) onSelect({ kind: 'score', min: bin.min, max: bin.max, label: `Score ${bin.label}` })
+                }}
+              />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-200">Criterion Averages</CardTitle>
+          <CardDescription className="text-gray-400">Click a criterion to list entries at or above its average</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <RadarChart
+              data={averages}
+              className="cursor-pointer"
+              onClick={(state) => {
+                const average = averages[Number(state?.activeTooltipIndex)]
+                if (average) {
+                  onSelect({
+                    kind: 'criterion',
+                    criterionId: average.criterionId,
+                    average: average.average,
+                    label: `${average.label} at or above average (${average.average.toFixed(0)}%)`
+                  })
+                }
+              }}
+            >
+              <PolarGrid stroke="#374151" />
+              <PolarAngleAxis dataKey="label" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Radar dataKey="average" stroke="var(--color-average)" fill="var(--color-average)" fillOpacity={0.4} />
+            </RadarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-200">Rule Compliance</CardTitle>
+          <CardDescription className="text-gray-400">Entries meeting every jam rule</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+              <Pie
+                data={compliance}
+                dataKey="count"
+                nameKey="name"
+                innerRadius={50}
+                className="cursor-pointer"
+                onClick={(_, index) => {
+                  const slice = compliance[index]
+                  if (slice?.count) {
+                    onSelect({ kind: 'compliance', compliant: slice.compliant, label: slice.compliant ? 'Compliant' : 'Non-compliant' })
+                  }
+                }}
+              >
+                {compliance.map((slice) => (
+                  <Cell key={slice.name} fill={`var(--color-${slice.name})`} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-lg text-gray-200">Evaluations per Hour</CardTitle>
+          <CardDescription className="text-gray-400">Score sheets saved during judging</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={hours}>
+              <CartesianGrid vertical={false} stroke="#374151" />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                dataKey="sheets"
+                fill="var(--color-sheets)"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(_, index) => {
+                  const bucket = hours[index]
+                  if (bucket?.count) onSelect({ kind: 'hour', start: bucket.start, label: `Scored ${bucket.label}` })
+                }}
+              />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900 border-gray-800 lg:col-span-2">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg text-gray-200">Criterion vs Criterion</CardTitle>
+            <CardDescription className="text-gray-400">Each dot is an entry; click one to open it on the leaderboard</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {[
+              { value: xCriterionId, onChange: setXCriterionId, placeholder: 'X axis' },
+              { value: yCriterionId, onChange: setYCriterionId, placeholder: 'Y axis' }
+            ].map((axis) => (
+              <Select key={axis.placeholder} value={axis.value} onValueChange={axis.onChange}>
+                <SelectTrigger className="w-44 bg-gray-900 border-gray-700 text-white">
+                  <SelectValue placeholder={axis.placeholder} />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {criteria.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+            <ScatterChart>
+              <CartesianGrid stroke="#374151" />
+              <XAxis type="number" dataKey="x" name={xCriterion?.label} domain={[0, 100]} unit="%" tickLine={false} />
+              <YAxis type="number" dataKey="y" name={yCriterion?.label} domain={[0, 100]} unit="%" tickLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelKey="name" />} />
+              <Scatter
+                data={points}
+                fill="#a855f7"
+                className="cursor-pointer"
+                onClick={(_, index) => {
+                  const point = points[index]
+                  if (point) onSelect({ kind: 'entry', key: point.key, label: point.name })
+                }}
+              />
+            </ScatterChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ValidationIssuesTable } from '@/components/ValidationIssuesTable'
+import { summarizeQueue, QUEUE_STATUS_LABELS } from '@/lib/evaluation-queue'
+import type { EvaluationQueue } from '@/hooks/useEvaluationQueue'
+import type { QueueItemStatus } from '@/types'
+import { Play, Pause, Square, RotateCcw, Trash2, Loader2, ChevronDown, ChevronUp } from 'lucide-react'
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  pending: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+  running: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+  retrying: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  succeeded: 'bg-green-500/20 text-green-400 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+  cancelled: 'bg-gray-500/20 text-gray-500 border-gray-500/30'
+}
+
+interface EvaluationQueuePanelProps {
+  queue: EvaluationQueue
+}
+
+export function EvaluationQueuePanel({ queue }: EvaluationQueuePanelProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const { items, runState, options } = queue
+
+  const counts = summarizeQueue(items)
+  const finished = counts.succeeded + counts.failed + counts.cancelled
+  const progress = items.length > 0 ? (finished / items.length) * 100 : 0
+  const canRetry = counts.failed + counts.cancelled > 0
+
+  const handleOptionChange = (key: keyof typeof options, value: number) => {
+    queue.setOptions(prev => ({ ...prev, [key]: value }))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2">Evaluation Queue</h2>
+        <p className="text-gray-400">Run the AI evaluation across many scored submissions</p>
+      </div>
+
+      {/* Run Options */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-gray-200">Run Options</CardTitle>
+          <CardDescription className="text-gray-400">
+            Failed calls are retried with exponential backoff before the item is marked failed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="queueConcurrency" className="text-gray-200">Concurrency</Label>
+              <Input
+                id="queueConcurrency"
+                type="number"
+                min="1"
+                max="10"
+                value={options.concurrency}
+                disabled={runState !== 'idle'}
+                onChange={(e) => handleOptionChange('concurrency', Math.max(1, Math.min(10, Number(e.target.value))))}
+                className="bg-gray-950 border-gray-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="queueRetries" className="text-gray-200">Max Retries</Label>
+              <Input
+                id="queueRetries"
+                type="number"
+                min="0"
+                max="10"
+                value={options.maxRetries}
+                disabled={runState !== 'idle'}
+                onChange={(e) => handleOptionChange('maxRetries', Math.max(0, Math.min(10, Number(e.target.value))))}
+                className="bg-gray-950 border-gray-700 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="queueDelay" className="text-gray-200">Initial Retry Delay (seconds)</Label>
+              <Input
+                id="queueDelay"
+                type="number"
+                min="1"
+                max="60"
+                value={options.baseDelayMs / 1000}
+                disabled={runState !== 'idle'}
+                onChange={(e) => handleOptionChange('baseDelayMs', Math.max(1, Math.min(60, Number(e.target.value))) * 1000)}
+                className="bg-gray-950 border-gray-700 text-white"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Controls and Progress */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {runState === 'idle' && (
+              <Button
+                onClick={() => queue.start()}
+                disabled={counts.pending === 0}
+                className="bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Start ({counts.pending})
+              </Button>
+            )}
+            {runState === 'running' && (
+              <Button onClick={queue.pause} className="bg-orange-600 hover:bg-orange-700">
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+            )}
+            {runState === 'paused' && (
+              <Button onClick={queue.resume} className="bg-green-600 hover:bg-green-700">
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            )}
+            {runState !== 'idle' && (
+              <Button
+                onClick={queue.cancel}
+                variant="outline"
+                className="border-red-700 text-red-400 hover:bg-red-900/20"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+            <Button
+              onClick={() => queue.retry()}
+              disabled={!canRetry || runState !== 'idle'}
+              variant="outline"
+              className="border-gray-700 text-gray-200 hover:bg-gray-800"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry Failed
+            </Button>
+            <Button
+              onClick={queue.clearSucceeded}
+              disabled={counts.succeeded === 0}
+              variant="outline"
+              className="ml-auto border-gray-700 text-gray-200 hover:bg-gray-800"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear Succeeded
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-gray-400">
+              <span>
+                {finished} / {items.length} finished
+                {runState === 'paused' && ' · paused'}
+              </span>
+              <span>
+                {counts.succeeded} succeeded · {counts.failed} failed
+                {counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+              </span>
+            </div>
+            <Progress value={progress} className="h-2 bg-gray-800" />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Items */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="p-0">
+          {items.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              The queue is empty. Use "Add to Queue" on the Evaluate page to batch score sheets.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                    <TableHead className="text-gray-300">Game Name</TableHead>
+                    <TableHead className="text-gray-300">Team</TableHead>
+                    <TableHead className="text-gray-300">Judge</TableHead>
+                    <TableHead className="text-gray-300 text-center">Attempts</TableHead>
+                    <TableHead className="text-gray-300">Status</TableHead>
+                    <TableHead className="text-gray-300 w-28"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <>
+                      <TableRow key={item.id} className="border-gray-800 hover:bg-gray-800/50">
+                        <TableCell className="font-semibold text-white">{item.gameName}</TableCell>
+                        <TableCell className="text-gray-400">{item.teamName}</TableCell>
+                        <TableCell className="text-gray-400">{item.judgeName}</TableCell>
+                        <TableCell className="text-center text-gray-300">{item.attempts}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[item.status]}>
+                            {(item.status === 'running' || item.status === 'retrying') && (
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            )}
+                            {QUEUE_STATUS_LABELS[item.status]}
+                          </Badge>
+                          {item.error && (
+                            <div className="text-xs text-red-400 mt-1">{item.error}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {item.raw_response && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                                className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                              >
+                                {expandedId === item.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                              </Button>
+                            )}
+                            {(item.status === 'failed' || item.status === 'cancelled') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={runState !== 'idle'}
+                                onClick={() => queue.retry([item.id])}
+                                className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {item.status !== 'running' && item.status !== 'retrying' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => queue.remove(item.id)}
+                                className="border-red-700 text-red-400 hover:bg-red-900/20"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {expandedId === item.id && item.raw_response && (
+                        <TableRow className="border-gray-800">
+                          <TableCell colSpan={6} className="bg-gray-950 p-4">
+                            {item.validationIssues && item.validationIssues.length > 0 && (
+                              <div className="mb-4">
+                                <div className="text-xs font-semibold text-gray-400 mb-2">Schema validation</div>
+                                <ValidationIssuesTable issues={item.validationIssues} />
+                              </div>
+                            )}
+                            <div className="text-xs font-semibold text-gray-400 mb-2">Raw agent response</div>
+                            <pre className="text-xs text-gray-400 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+                              {item.raw_response}
+                            </pre>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import {
+  criterionGaps,
+  feedbackDiff,
+  toggleCompared,
+  FEEDBACK_SECTION_LABELS,
+  MAX_COMPARED,
+  MIN_COMPARED
+} from '@/lib/comparison'
+import { isRanked } from '@/lib/moderation'
+import { rankByKey, rankEntries } from '@/lib/ranking'
+import type { AggregatedEvaluation, CriterionDefinition, Feedback, RankingSettings, Submission } from '@/types'
+
+interface GameComparisonProps {
+  entries: AggregatedEvaluation[]
+  criteria: CriterionDefinition[]
+  ranking: RankingSettings
+  submissions: Submission[]
+  comparedKeys: string[]
+  onComparedKeysChange: (keys: string[]) => void
+}
+
+const COLORS = ['#a855f7', '#06b6d4', '#f97316', '#22c55e']
+
+// Number of widest criterion gaps called out above the table
+const HIGHLIGHTED_GAPS = 3
+
+/**
+ * Side-by-side comparison of two to four finalists: criterion radar, score gaps
+ * and feedback differences
+ */
+export function GameComparison({
+  entries,
+  criteria,
+  ranking,
+  submissions,
+  comparedKeys,
+  onComparedKeysChange
+}: GameComparisonProps) {
+  const ranks = rankByKey(rankEntries(entries.filter(isRanked), ranking, submissions))
+  const ordered = [...entries].sort((a, b) => (ranks[a.key]?.rank ?? Infinity) - (ranks[b.key]?.rank ?? Infinity))
+  const compared = comparedKeys
+    .map(key => entries.find(e => e.key === key))
+    .filter((e): e is AggregatedEvaluation => Boolean(e))
+
+  const gaps = criterionGaps(compared, criteria)
+  const highlighted = new Set(gaps.filter(g => g.range > 0).slice(0, HIGHLIGHTED_GAPS).map(g => g.criterionId))
+
+  const chartConfig: ChartConfig = Object.fromEntries(compared.map((entry, index) => [
+    `game${index}`,
+    { label: entry.result.game_name, color: COLORS[index] }
+  ]))
+  const radarData = criteria.map(criterion => {
+    const gap = gaps.find(g => g.criterionId === criterion.id)
+    return {
+      label: criterion.label,
+      ...Object.fromEntries(compared.map((_, index) => [`game${index}`, gap?.values[index] ?? 0]))
+    }
+  })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2">Compare Finalists</h2>
+        <p className="text-gray-400">Pick {MIN_COMPARED} to {MAX_COMPARED} games to put side by side</p>
+      </div>
+
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="pt-6 flex flex-wrap gap-2">
+          {ordered.length === 0 && <div className="text-gray-500">No evaluations yet.</div>}
+          {ordered.map((entry) => {
+            const index = comparedKeys.indexOf(entry.key)
+            const selected = index >= 0
+            const full = !selected && comparedKeys.length >= MAX_COMPARED
+            return (
+              <button
+                key={entry.key}
+                type="button"
+                disabled={full}
+                onClick={() => onComparedKeysChange(toggleCompared(comparedKeys, entry.key))}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                  selected ? 'text-white' : 'border-gray-700 text-gray-300 hover:bg-gray-800',
+                  full && 'opacity-40 cursor-not-allowed'
+                )}
+                style={selected ? { borderColor: COLORS[index], backgroundColor: `${COLORS[index]}33` } : undefined}
+              >
+                {ranks[entry.key] && <span className="text-gray-400 mr-1">#{ranks[entry.key].rank}</span>}
+                {entry.result.game_name}
+              </button>
+            )
+          })}
+        </CardContent>
+      </Card>
+
+      {compared.length < MIN_COMPARED ? (
+        <div className="text-center py-12 text-gray-500">
+          Select at least {MIN_COMPARED} games to compare.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-gray-200">Criterion Profile</CardTitle>
+                <CardDescription className="text-gray-400">Raw scores as a percentage of each criterion's scale</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-80 w-full aspect-auto">
+                  <RadarChart data={radarData}>
+                    <PolarGrid stroke="#374151" />
+                    <PolarAngleAxis dataKey="label" />
+                    <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    {compared.map((_, index) => (
+                      <Radar
+                        key={index}
+                        dataKey={`game${index}`}
+                        stroke={`var(--color-game${index})`}
+                        fill={`var(--color-game${index})`}
+                        fillOpacity={0.15}
+                      />
+                    ))}
+                    <ChartLegend content={<ChartLegendContent />} />
+                  </RadarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-gray-200">Where They Differ</CardTitle>
+                <CardDescription className="text-gray-400">Widest gaps highlighted</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                      <TableHead className="text-gray-300">Criterion</TableHead>
+                      {compared.map((entry, index) => (
+                        <TableHead key={entry.key} className="text-right" style={{ color: COLORS[index] }}>
+                          {entry.result.game_name}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-gray-300 text-right">Gap</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gaps.map((gap) => (
+                      <TableRow
+                        key={gap.criterionId}
+                        className={cn('border-gray-800', highlighted.has(gap.criterionId) && 'bg-orange-500/10')}
+                      >
+                        <TableCell className="text-white">{gap.label}</TableCell>
+                        {gap.values.map((value, index) => (
+                          <TableCell
+                            key={index}
+                            className={cn('text-right', index === gap.leader && gap.range > 0 ? 'font-semibold text-white' : 'text-gray-400')}
+                          >
+                            {value === undefined ? '—' : `${value.toFixed(0)}%`}
+                          </TableCell>
+                        ))}
+                        <TableCell className={cn(
+                          'text-right font-semibold',
+                          highlighted.has(gap.criterionId) ? 'text-orange-400' : 'text-gray-400'
+                        )}>
+                          {gap.range.toFixed(0)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="border-gray-800 bg-gray-950">
+                      <TableCell className="font-semibold text-gray-300">Total</TableCell>
+                      {compared.map((entry) => (
+                        <TableCell key={entry.key} className="text-right font-semibold text-cyan-400">
+                          {entry.result.percentage_score.toFixed(1)}%
+                        </TableCell>
+                      ))}
+                      <TableCell />
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-gray-900 border-gray-800">
+            <CardHeader>
+              <CardTitle className="text-gray-200">Feedback Side by Side</CardTitle>
+              <CardDescription className="text-gray-400">
+                Points only one game received are highlighted; points the others share are dimmed
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {(Object.keys(FEEDBACK_SECTION_LABELS) as (keyof Feedback)[]).map((section) => {
+                const diff = feedbackDiff(compared, section)
+                return (
+                  <div key={section}>
+                    <h4 className="font-semibold text-gray-200 mb-2">{FEEDBACK_SECTION_LABELS[section]}</h4>
+                    <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${compared.length}, minmax(0, 1fr))` }}>
+                      {compared.map((entry, index) => (
+                        <div key={entry.key} className="space-y-2">
+                          <div className="text-xs font-semibold" style={{ color: COLORS[index] }}>{entry.result.game_name}</div>
+                          {diff[index].length === 0 && <div className="text-sm text-gray-600">None</div>}
+                          {diff[index].map((point, pointIndex) => (
+                            <div
+                              key={pointIndex}
+                              className={cn(
+                                'text-sm p-2 rounded border',
+                                point.shared
+                                  ? 'border-gray-800 text-gray-500'
+                                  : 'border-purple-500/30 bg-purple-500/10 text-gray-200'
+                              )}
+                            >
+                              {point.text}
+                              {!point.shared && (
+                                <Badge className="ml-2 bg-purple-500/20 text-purple-300 border-purple-500/30">Unique</Badge>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
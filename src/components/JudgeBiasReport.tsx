@@ -0,0 +1,86 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import { judgeBiasReport, NORMALIZATION_LABELS } from '@/lib/normalization'
+import type { CriterionDefinition, NormalizationMethod, SavedEvaluation } from '@/types'
+
+interface JudgeBiasReportProps {
+  evaluations: SavedEvaluation[]
+  criteria: CriterionDefinition[]
+  normalization: NormalizationMethod
+}
+
+// Offsets smaller than this (in percentage points) are treated as noise
+const BIAS_THRESHOLD = 5
+
+/**
+ * Each judge's score mean and spread against the panel, and what normalization
+ * does to them
+ */
+export function JudgeBiasReport({ evaluations, criteria, normalization }: JudgeBiasReportProps) {
+  const report = judgeBiasReport(evaluations, normalization, criteria)
+  const normalized = normalization !== 'none'
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-gray-200">Judge Bias</CardTitle>
+        <CardDescription className="text-gray-400">
+          Mean and standard deviation of each judge's percentage scores
+          {normalized && `, before and after ${NORMALIZATION_LABELS[normalization].toLowerCase()}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {report.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">No score sheets yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                  <TableHead className="text-gray-300">Judge</TableHead>
+                  <TableHead className="text-gray-300 text-center">Sheets</TableHead>
+                  <TableHead className="text-gray-300 text-right">Raw Mean</TableHead>
+                  <TableHead className="text-gray-300 text-right">Raw Std Dev</TableHead>
+                  <TableHead className="text-gray-300 text-right">vs Panel</TableHead>
+                  {normalized && (
+                    <>
+                      <TableHead className="text-gray-300 text-right">Normalized Mean</TableHead>
+                      <TableHead className="text-gray-300 text-right">Normalized Std Dev</TableHead>
+                    </>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.map((judge) => (
+                  <TableRow key={judge.judgeKey} className="border-gray-800">
+                    <TableCell className="font-medium text-white">{judge.judgeName}</TableCell>
+                    <TableCell className="text-center text-gray-300">{judge.sheetCount}</TableCell>
+                    <TableCell className="text-right text-gray-300">{judge.rawMean.toFixed(1)}%</TableCell>
+                    <TableCell className="text-right text-gray-300">{judge.rawStdDev.toFixed(1)}</TableCell>
+                    <TableCell className={cn(
+                      'text-right font-semibold',
+                      judge.rawOffset <= -BIAS_THRESHOLD && 'text-red-400',
+                      judge.rawOffset >= BIAS_THRESHOLD && 'text-orange-400',
+                      Math.abs(judge.rawOffset) < BIAS_THRESHOLD && 'text-gray-400'
+                    )}>
+                      {judge.rawOffset > 0 ? '+' : ''}{judge.rawOffset.toFixed(1)}
+                      {judge.rawOffset <= -BIAS_THRESHOLD && ' (harsh)'}
+                      {judge.rawOffset >= BIAS_THRESHOLD && ' (lenient)'}
+                    </TableCell>
+                    {normalized && (
+                      <>
+                        <TableCell className="text-right text-cyan-400">{judge.normalizedMean.toFixed(1)}%</TableCell>
+                        <TableCell className="text-right text-cyan-400">{judge.normalizedStdDev.toFixed(1)}</TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
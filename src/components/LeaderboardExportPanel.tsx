@@ -0,0 +1,208 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  buildExportTable,
+  exportFileName,
+  parseResultsJson,
+  toCsv,
+  toMarkdown,
+  toResultsJson,
+  toXlsx,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_COLUMN_LABELS,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_MIME_TYPES,
+  SCORE_MODE_LABELS,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportOptions,
+  type ScoreMode
+} from '@/lib/export'
+import type { RankedEntry } from '@/lib/ranking'
+import type { AggregatedEvaluation, CriterionDefinition, SavedEvaluation } from '@/types'
+import { Download, Upload, XCircle } from 'lucide-react'
+
+interface LeaderboardExportPanelProps {
+  entries: AggregatedEvaluation[]
+  ranks: Record<string, RankedEntry>
+  criteria: CriterionDefinition[]
+  eventName: string
+  // Judge normalization is on, so the raw percentage is worth exporting
+  normalized: boolean
+  // Returns how many sheets were added or replaced an earlier one
+  onImportSheets: (sheets: SavedEvaluation[]) => number
+  onClose: () => void
+  readOnly: boolean
+}
+
+/**
+ * Choose a format and columns, download the leaderboard, or import a JSON
+ * export back in
+ */
+export function LeaderboardExportPanel({
+  entries,
+  ranks,
+  criteria,
+  eventName,
+  normalized,
+  onImportSheets,
+  onClose,
+  readOnly
+}: LeaderboardExportPanelProps) {
+  const [options, setOptions] = useState<ExportOptions>(() => normalized
+    ? { ...DEFAULT_EXPORT_OPTIONS, columns: [...DEFAULT_EXPORT_OPTIONS.columns, 'raw_percentage'] }
+    : DEFAULT_EXPORT_OPTIONS
+  )
+  const tabular = options.format !== 'json'
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    setOptions(prev => ({
+      ...prev,
+      columns: checked ? [...prev.columns, column] : prev.columns.filter(c => c !== column)
+    }))
+  }
+
+  const handleDownload = () => {
+    const table = buildExportTable(entries, ranks, criteria, options)
+    const title = `${eventName || 'Game Jam'} Leaderboard`
+    const data = options.format === 'csv'
+      // BOM so Excel reads the file as UTF-8
+      ? `\uFEFF${toCsv(table)}`
+      : options.format === 'xlsx'
+        ? toXlsx(table, title)
+        : options.format === 'markdown'
+          ? toMarkdown(table, title)
+          : toResultsJson(entries, ranks, criteria, eventName)
+
+    const blob = new Blob([data], { type: EXPORT_MIME_TYPES[options.format] })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = exportFileName(options.format)
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (file: File) => {
+    const { sheets, errors } = parseResultsJson(await file.text())
+    const added = sheets.length > 0 ? onImportSheets(sheets) : 0
+    const skipped = sheets.length - added
+    alert([
+      `Imported ${added} score ${added === 1 ? 'sheet' : 'sheets'}.`,
+      ...(skipped > 0 ? [`${skipped} already present.`] : []),
+      ...errors
+    ].join('\n'))
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-gray-200">Export Leaderboard</CardTitle>
+          <CardDescription className="text-gray-400">
+            {entries.length} {entries.length === 1 ? 'entry' : 'entries'} as currently filtered; archived entries are left out
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-400 hover:text-white">
+          <XCircle className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label className="text-gray-200">Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => setOptions(prev => ({ ...prev, format: value as ExportFormat }))}
+            >
+              <SelectTrigger className="w-[220px] bg-gray-900 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-700">
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                  <SelectItem key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {tabular && (
+            <div className="space-y-2">
+              <Label className="text-gray-200">Criterion scores</Label>
+              <Select
+                value={options.scoreMode}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, scoreMode: value as ScoreMode }))}
+              >
+                <SelectTrigger className="w-[200px] bg-gray-900 border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {(Object.keys(SCORE_MODE_LABELS) as ScoreMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{SCORE_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <Button
+            onClick={handleDownload}
+            disabled={entries.length === 0 || (tabular && options.columns.length === 0 && !options.includeFeedback)}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+
+          {!readOnly && (
+            <Label className="ml-auto inline-flex items-center gap-2 px-4 h-10 rounded-md border border-gray-700 text-gray-200 hover:bg-gray-800 cursor-pointer">
+              <Upload className="h-4 w-4" />
+              Import JSON Export
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImport(file)
+                  e.target.value = ''
+                }}
+              />
+            </Label>
+          )}
+        </div>
+
+        {tabular ? (
+          <div className="flex flex-wrap gap-x-6 gap-y-3">
+            {(Object.keys(EXPORT_COLUMN_LABELS) as ExportColumn[]).map((column) => (
+              <div key={column} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-${column}`}
+                  checked={options.columns.includes(column)}
+                  onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                />
+                <Label htmlFor={`export-${column}`} className="text-gray-300">{EXPORT_COLUMN_LABELS[column]}</Label>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-feedback"
+                checked={options.includeFeedback}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeFeedback: checked === true }))}
+              />
+              <Label htmlFor="export-feedback" className="text-gray-300">Compliance and feedback text</Label>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">
+            JSON keeps criteria, ranks, statuses and every judge's sheet, and can be imported into another event.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
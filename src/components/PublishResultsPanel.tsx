@@ -0,0 +1,261 @@
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  canSealFeedback,
+  publicResultsUrl,
+  resultsFileName,
+  FEEDBACK_VISIBILITY_LABELS,
+  PUBLIC_FIELD_LABELS
+} from '@/lib/public-results'
+import type { FeedbackVisibility, PublicField, PublicResults, PublishSettings } from '@/types'
+import { Copy, Download, ExternalLink, Globe, Loader2, XCircle } from 'lucide-react'
+
+interface PublishResultsPanelProps {
+  eventId: string
+  publishSettings: PublishSettings
+  publishedResults: PublicResults | null
+  // Saves the settings, issues missing team links and publishes a new snapshot
+  onPublish: (settings: PublishSettings, resetLinks: boolean) => Promise<void>
+  onUnpublish: () => void
+  onClose: () => void
+}
+
+/**
+ * Choose what the public results page shows, publish a snapshot and hand out
+ * the public and per-team links
+ */
+export function PublishResultsPanel({
+  eventId,
+  publishSettings,
+  publishedResults,
+  onPublish,
+  onUnpublish,
+  onClose
+}: PublishResultsPanelProps) {
+  const sealable = canSealFeedback()
+  // Team-only feedback can't be sealed here, so don't leave it selected
+  const [settings, setSettings] = useState<PublishSettings>(() =>
+    publishSettings.feedback === 'team' && !sealable ? { ...publishSettings, feedback: 'hidden' } : publishSettings
+  )
+  const [resetLinks, setResetLinks] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [publishError, setPublishError] = useState<string | null>(null)
+
+  const link = (token?: string) => publicResultsUrl(window.location.origin, eventId, publishSettings.snapshotUrl, token)
+
+  const toggleField = (field: PublicField, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      fields: checked ? [...prev.fields, field] : prev.fields.filter(f => f !== field)
+    }))
+  }
+
+  const handlePublish = async () => {
+    if (resetLinks && !confirm('Issue new team links? Links already sent to teams will stop opening their feedback.')) return
+    setPublishing(true)
+    setPublishError(null)
+    try {
+      await onPublish(settings, resetLinks)
+      setResetLinks(false)
+    } catch (error) {
+      setPublishError(`Could not publish: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const handleDownload = () => {
+    if (!publishedResults) return
+    const blob = new Blob([JSON.stringify(publishedResults, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = resultsFileName(publishedResults)
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).catch(() => prompt('Copy this link:', text))
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-gray-200">Publish Results</CardTitle>
+          <CardDescription className="text-gray-400">
+            A read-only page with the ranked leaderboard and award winners. Fields left unchecked are not included in the snapshot at all.
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-400 hover:text-white">
+          <XCircle className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-x-6 gap-y-3">
+          {(Object.keys(PUBLIC_FIELD_LABELS) as PublicField[]).map((field) => (
+            <div key={field} className="flex items-center gap-2">
+              <Checkbox
+                id={`public-${field}`}
+                checked={settings.fields.includes(field)}
+                onCheckedChange={(checked) => toggleField(field, checked === true)}
+              />
+              <Label htmlFor={`public-${field}`} className="text-gray-300">{PUBLIC_FIELD_LABELS[field]}</Label>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="public-awards"
+              checked={settings.showAwards}
+              onCheckedChange={(checked) => setSettings(prev => ({ ...prev, showAwards: checked === true }))}
+            />
+            <Label htmlFor="public-awards" className="text-gray-300">Award winners</Label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label className="text-gray-200">Judge feedback</Label>
+            <Select
+              value={settings.feedback}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, feedback: value as FeedbackVisibility }))}
+            >
+              <SelectTrigger className="w-[260px] bg-gray-900 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-700">
+                {(Object.keys(FEEDBACK_VISIBILITY_LABELS) as FeedbackVisibility[]).map((visibility) => (
+                  <SelectItem key={visibility} value={visibility} disabled={visibility === 'team' && !sealable}>
+                    {FEEDBACK_VISIBILITY_LABELS[visibility]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 flex-1 min-w-[260px]">
+            <Label className="text-gray-200">Hosted snapshot URL (optional)</Label>
+            <Input
+              value={settings.snapshotUrl || ''}
+              onChange={(e) => setSettings(prev => ({ ...prev, snapshotUrl: e.target.value }))}
+              placeholder="https://example.com/results.json"
+              className="bg-gray-950 border-gray-700 text-white"
+            />
+          </div>
+        </div>
+
+        {!sealable && (
+          <p className="text-xs text-orange-400">
+            Team-only feedback needs this page to be opened over https or on localhost.
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          Links open the snapshot saved in this browser. To share them with other devices, download the snapshot,
+          host the file where the results page can fetch it, and enter its URL above before publishing.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <Button onClick={handlePublish} disabled={publishing} className="bg-purple-600 hover:bg-purple-700">
+            {publishing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Globe className="h-4 w-4 mr-2" />}
+            {publishedResults ? 'Republish' : 'Publish'}
+          </Button>
+          {settings.feedback === 'team' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="public-reset-links"
+                checked={resetLinks}
+                onCheckedChange={(checked) => setResetLinks(checked === true)}
+              />
+              <Label htmlFor="public-reset-links" className="text-gray-300">Issue new team links</Label>
+            </div>
+          )}
+        </div>
+
+        {publishError && <p className="text-sm text-red-400">{publishError}</p>}
+
+        {publishedResults && (
+          <div className="space-y-3 pt-2 border-t border-gray-800">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+                Published {new Date(publishedResults.publishedAt).toLocaleString()}
+              </Badge>
+              <Button asChild variant="outline" size="sm" className="border-gray-700 text-gray-200 hover:bg-gray-800">
+                <a href={link()} target="_blank" rel="noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-1" />
+                  Open Public Page
+                </a>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => copy(link())}
+                className="border-gray-700 text-gray-200 hover:bg-gray-800"
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDownload}
+                className="border-gray-700 text-gray-200 hover:bg-gray-800"
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Download Snapshot
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onUnpublish}
+                className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+              >
+                Unpublish
+              </Button>
+            </div>
+
+            {publishedResults.feedback === 'team' && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                      <TableHead className="text-gray-300">Game</TableHead>
+                      <TableHead className="text-gray-300">Team</TableHead>
+                      <TableHead className="text-gray-300"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {publishedResults.entries.filter(entry => entry.sealedFeedback).map((entry) => (
+                      <TableRow key={entry.key} className="border-gray-800 hover:bg-gray-800/50">
+                        <TableCell className="text-white">{entry.gameName}</TableCell>
+                        <TableCell className="text-gray-400">{entry.teamName}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => copy(link(publishSettings.teamTokens[entry.key]))}
+                            className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                          >
+                            <Copy className="h-4 w-4 mr-1" />
+                            Copy Team Link
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { moveTieBreaker, tieBreakerLabel, RANKING_MODE_LABELS, TIE_BREAKER_LABELS } from '@/lib/ranking'
+import type { CriterionDefinition, RankingMode, RankingSettings, TieBreaker } from '@/types'
+import { ArrowDown, ArrowUp, Plus, XCircle } from 'lucide-react'
+
+interface RankingEditorProps {
+  ranking: RankingSettings
+  criteria: CriterionDefinition[]
+  onChange: (ranking: RankingSettings) => void
+}
+
+// Select values for tie-breakers; criterion ones carry the criterion id
+function optionValue(tieBreaker: TieBreaker): string {
+  return tieBreaker.kind === 'criterion' ? `criterion:${tieBreaker.criterionId}` : tieBreaker.kind
+}
+
+function tieBreakerFromOption(value: string): TieBreaker {
+  if (value.startsWith('criterion:')) return { kind: 'criterion', criterionId: value.slice('criterion:'.length) }
+  return { kind: value as TieBreaker['kind'] }
+}
+
+/**
+ * Pick the ranking mode and order the tie-breakers applied to equal scores
+ */
+export function RankingEditor({ ranking, criteria, onChange }: RankingEditorProps) {
+  const [newTieBreaker, setNewTieBreaker] = useState('')
+
+  const used = new Set(ranking.tieBreakers.map(optionValue))
+  const options: TieBreaker[] = [
+    ...criteria.map(c => ({ kind: 'criterion' as const, criterionId: c.id })),
+    { kind: 'judge_count' },
+    { kind: 'submitted_at' }
+  ]
+  const available = options.filter(option => !used.has(optionValue(option)))
+
+  const handleAdd = () => {
+    if (!newTieBreaker) return
+    onChange({ ...ranking, tieBreakers: [...ranking.tieBreakers, tieBreakerFromOption(newTieBreaker)] })
+    setNewTieBreaker('')
+  }
+
+  const handleRemove = (index: number) => {
+    onChange({ ...ranking, tieBreakers: ranking.tieBreakers.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-gray-200">Ranking Style</Label>
+        <Select
+          value={ranking.mode}
+          onValueChange={(value) => onChange({ ...ranking, mode: value as RankingMode })}
+        >
+          <SelectTrigger className="bg-gray-950 border-gray-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-900 border-gray-700">
+            {(Object.keys(RANKING_MODE_LABELS) as RankingMode[]).map((mode) => (
+              <SelectItem key={mode} value={mode}>{RANKING_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-gray-200">Tie-Breakers</Label>
+        <p className="text-sm text-gray-400">
+          Applied in order when games have the same percentage score; games still tied share a rank
+        </p>
+        {ranking.tieBreakers.map((tieBreaker, index) => (
+          <div key={optionValue(tieBreaker)} className="flex items-center gap-2">
+            <div className="flex-1 p-3 rounded bg-gray-950 border border-gray-700 text-gray-300">
+              {index + 1}. {tieBreakerLabel(tieBreaker, criteria)}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...ranking, tieBreakers: moveTieBreaker(ranking.tieBreakers, index, -1) })}
+              disabled={index === 0}
+              className="border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...ranking, tieBreakers: moveTieBreaker(ranking.tieBreakers, index, 1) })}
+              disabled={index === ranking.tieBreakers.length - 1}
+              className="border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRemove(index)}
+              className="border-red-700 text-red-400 hover:bg-red-900/20"
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {available.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={newTieBreaker} onValueChange={setNewTieBreaker}>
+              <SelectTrigger className="bg-gray-950 border-gray-700 text-white">
+                <SelectValue placeholder="Add a tie-breaker..." />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-700">
+                {available.map((option) => (
+                  <SelectItem key={optionValue(option)} value={optionValue(option)}>
+                    {option.kind === 'criterion' ? tieBreakerLabel(option, criteria) : TIE_BREAKER_LABELS[option.kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleAdd}
+              disabled={!newTieBreaker}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import { alphaLabel, reliabilityReport, ALPHA_RELIABLE, ALPHA_TENTATIVE } from '@/lib/reliability'
+import type { CriterionDefinition, SavedEvaluation } from '@/types'
+
+interface ReliabilityAnalyticsProps {
+  evaluations: SavedEvaluation[]
+  criteria: CriterionDefinition[]
+}
+
+const alphaConfig = {
+  alpha: { label: "Krippendorff's alpha", color: '#a855f7' }
+} satisfies ChartConfig
+
+const deviationConfig = {
+  meanDeviation: { label: 'Mean deviation (pts)', color: '#06b6d4' }
+} satisfies ChartConfig
+
+function alphaColor(alpha: number | null): string {
+  if (alpha === null) return '#6b7280'
+  if (alpha >= ALPHA_RELIABLE) return '#22c55e'
+  if (alpha >= ALPHA_TENTATIVE) return '#f97316'
+  return '#ef4444'
+}
+
+/**
+ * Judge calibration: agreement per criterion, each judge's offset from the
+ * panel, and the games judges disagree on most
+ */
+export function ReliabilityAnalytics({ evaluations, criteria }: ReliabilityAnalyticsProps) {
+  const report = reliabilityReport(evaluations, criteria)
+  const agreements = [report.overall, ...report.criteria]
+  const criterionLabel = (id: string) => criteria.find(c => c.id === id)?.label || id
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2">Judge Agreement</h2>
+        <p className="text-gray-400">
+          Inter-rater reliability across games scored by two or more judges
+        </p>
+      </div>
+
+      {report.overall.gamesCompared === 0 ? (
+        <Card className="bg-gray-900 border-gray-800">
+          <CardContent className="text-center py-12 text-gray-500">
+            Agreement needs at least one game scored by two or more judges.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-gray-200">Agreement by Criterion</CardTitle>
+                <CardDescription className="text-gray-400">
+                  Krippendorff's alpha (interval): {ALPHA_RELIABLE}+ reliable, {ALPHA_TENTATIVE}+ tentative
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={alphaConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={agreements.map(a => ({ label: a.label, alpha: a.alpha ?? 0 }))}>
+                    <CartesianGrid vertical={false} stroke="#374151" />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} angle={-20} textAnchor="end" height={60} />
+                    <YAxis domain={[-1, 1]} tickLine={false} axisLine={false} width={32} />
+                    <ReferenceLine y={ALPHA_RELIABLE} stroke="#22c55e" strokeDasharray="4 4" />
+                    <ReferenceLine y={0} stroke="#6b7280" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="alpha" radius={4}>
+                      {agreements.map((a) => (
+                        <Cell key={a.criterionId} fill={alphaColor(a.alpha)} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-gray-200">Deviation from Panel</CardTitle>
+                <CardDescription className="text-gray-400">
+                  Each judge's percentage score minus the other judges' mean on the same games
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={deviationConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={report.judges}>
+                    <CartesianGrid vertical={false} stroke="#374151" />
+                    <XAxis dataKey="judgeName" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ReferenceLine y={0} stroke="#6b7280" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="meanDeviation" fill="var(--color-meanDeviation)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-gray-900 border-gray-800">
+            <CardHeader>
+              <CardTitle className="text-gray-200">Criterion Detail</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                    <TableHead className="text-gray-300">Criterion</TableHead>
+                    <TableHead className="text-gray-300 text-center">Games Compared</TableHead>
+                    <TableHead className="text-gray-300 text-right">Alpha</TableHead>
+                    <TableHead className="text-gray-300 text-right">Verdict</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agreements.map((a) => (
+                    <TableRow key={a.criterionId} className="border-gray-800">
+                      <TableCell className={cn('text-white', a.criterionId === 'overall' && 'font-semibold')}>{a.label}</TableCell>
+                      <TableCell className="text-center text-gray-300">{a.gamesCompared}</TableCell>
+                      <TableCell className="text-right text-gray-300">{a.alpha === null ? '—' : a.alpha.toFixed(2)}</TableCell>
+                      <TableCell className="text-right" style={{ color: alphaColor(a.alpha) }}>{alphaLabel(a.alpha)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-900 border-gray-800">
+            <CardHeader>
+              <CardTitle className="text-gray-200">Judge Deviation</CardTitle>
+              <CardDescription className="text-gray-400">Largest average disagreement first</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                    <TableHead className="text-gray-300">Judge</TableHead>
+                    <TableHead className="text-gray-300 text-center">Sheets Compared</TableHead>
+                    <TableHead className="text-gray-300 text-right">Mean Deviation</TableHead>
+                    <TableHead className="text-gray-300 text-right">Mean Absolute Deviation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.judges.map((judge) => (
+                    <TableRow key={judge.judgeKey} className="border-gray-800">
+                      <TableCell className="font-medium text-white">{judge.judgeName}</TableCell>
+                      <TableCell className="text-center text-gray-300">{judge.sheetsCompared}</TableCell>
+                      <TableCell className="text-right text-gray-300">
+                        {judge.meanDeviation > 0 ? '+' : ''}{judge.meanDeviation.toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-right text-cyan-400">{judge.meanAbsoluteDeviation.toFixed(1)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-900 border-gray-800">
+            <CardHeader>
+              <CardTitle className="text-gray-200">Most Contested Games</CardTitle>
+              <CardDescription className="text-gray-400">Widest spread of judges' percentage scores</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {report.contested.length === 0 ? (
+                <div className="text-center py-6 text-gray-500">Judges agree exactly on every shared game.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                      <TableHead className="text-gray-300">Game</TableHead>
+                      <TableHead className="text-gray-300 text-center">Judges</TableHead>
+                      <TableHead className="text-gray-300 text-right">Range</TableHead>
+                      <TableHead className="text-gray-300 text-right">Std Dev</TableHead>
+                      <TableHead className="text-gray-300">Most Disputed Criterion</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.contested.map((game) => (
+                      <TableRow key={game.key} className="border-gray-800">
+                        <TableCell>
+                          <div className="font-semibold text-white">{game.gameName}</div>
+                          <div className="text-xs text-gray-400">{game.teamName}</div>
+                        </TableCell>
+                        <TableCell className="text-center text-gray-300">{game.judgeCount}</TableCell>
+                        <TableCell className="text-right text-gray-300">
+                          {game.minPercentage.toFixed(1)}% – {game.maxPercentage.toFixed(1)}%
+                        </TableCell>
+                        <TableCell className="text-right font-semibold text-orange-400">{game.spread.toFixed(1)}</TableCell>
+                        <TableCell>
+                          {game.criterionId ? (
+                            <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30">
+                              {criterionLabel(game.criterionId)} · {game.criterionRange.toFixed(0)}% of scale
+                            </Badge>
+                          ) : (
+                            <span className="text-gray-500">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { revisionHistory } from '@/lib/revisions'
+import type { SavedEvaluation } from '@/types'
+
+interface RevisionHistoryProps {
+  evaluation: SavedEvaluation
+}
+
+/**
+ * Every saved revision of a score sheet, newest first, with what changed
+ */
+export function RevisionHistory({ evaluation }: RevisionHistoryProps) {
+  const revisions = [...revisionHistory(evaluation)].reverse()
+
+  return (
+    <div className="space-y-3">
+      {revisions.map((revision) => (
+        <div key={revision.revision} className="rounded-lg border border-gray-800 bg-gray-950 p-3 space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2">
+              <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">
+                Revision {revision.revision}
+              </Badge>
+              <span className="text-gray-300">{revision.authorName || 'Unknown author'}</span>
+              <span className="text-gray-500">{new Date(revision.savedAt).toLocaleString()}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge className="bg-gray-800 text-gray-300 border-gray-700">
+                {revision.rescoredBy === 'agent' ? 'Agent evaluation' : 'Local re-score'}
+              </Badge>
+              <span className="font-semibold text-cyan-400">{revision.result.percentage_score.toFixed(1)}%</span>
+            </div>
+          </div>
+
+          {revision.revision === 1 ? (
+            <div className="text-xs text-gray-500">First saved version</div>
+          ) : revision.changes.length === 0 ? (
+            <div className="text-xs text-gray-500">Saved again with no changes</div>
+          ) : (
+            <div className="overflow-x-auto rounded border border-gray-800">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                    <TableHead className="text-gray-300">Field</TableHead>
+                    <TableHead className="text-gray-300">Before</TableHead>
+                    <TableHead className="text-gray-300">After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revision.changes.map((change) => (
+                    <TableRow key={change.field} className="border-gray-800">
+                      <TableCell className="text-xs text-gray-200">{change.label}</TableCell>
+                      <TableCell className="text-xs text-red-400 max-w-xs truncate">{change.before}</TableCell>
+                      <TableCell className="text-xs text-green-400 max-w-xs truncate">{change.after}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { cn } from '@/lib/utils'
+import {
+  buildImportPreview,
+  guessColumnMapping,
+  parseImportFile,
+  IMPORT_FIELD_LABELS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowStatus,
+  type ImportTable
+} from '@/lib/submission-import'
+import type { SubmissionDraft } from '@/lib/submissions'
+import type { Submission } from '@/types'
+import { AlertCircle, Upload, X } from 'lucide-react'
+
+// Radix Select does not allow an empty item value
+const UNMAPPED = '__unmapped__'
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+  duplicate_existing: { label: 'Already registered', className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' },
+  duplicate_in_file: { label: 'Duplicate in file', className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' },
+  invalid: { label: 'Invalid', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+}
+
+interface SubmissionImporterProps {
+  existing: Submission[]
+  onImport: (drafts: SubmissionDraft[]) => void
+  onClose: () => void
+}
+
+export function SubmissionImporter({ existing, onImport, onClose }: SubmissionImporterProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const preview = table && mapping ? buildImportPreview(table, mapping, existing) : []
+  const importable = preview.filter(row => row.status === 'new')
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setError(null)
+    try {
+      const parsed = parseImportFile(file.name, await file.text())
+      if (parsed.rows.length === 0) {
+        setError('The file contains no entries')
+        return
+      }
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(guessColumnMapping(parsed.columns))
+    } catch (err) {
+      setTable(null)
+      setMapping(null)
+      setError(err instanceof Error ? err.message : 'Could not read file')
+    }
+  }
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping(prev => prev && { ...prev, [field]: column === UNMAPPED ? '' : column })
+  }
+
+  const handleImport = () => {
+    onImport(importable.map(row => row.draft))
+    onClose()
+  }
+
+  return (
+    <Card className="bg-gray-900 border-gray-800">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-gray-200">Import Submissions</CardTitle>
+            <CardDescription className="text-gray-400">
+              Load a CSV or JSON jam export, map its columns and review before importing
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="text-gray-400 hover:bg-gray-800">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <label className="flex items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed border-gray-700 text-gray-400 hover:border-purple-500 cursor-pointer transition-colors">
+          <Upload className="h-5 w-5" />
+          <span>{fileName || 'Choose a .csv or .json file'}</span>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelect} className="hidden" />
+        </label>
+
+        {error && (
+          <Alert className="bg-red-500/10 border-red-500/30">
+            <AlertCircle className="h-4 w-4 text-red-400" />
+            <AlertTitle className="text-red-400">Import Error</AlertTitle>
+            <AlertDescription className="text-red-300">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {table && mapping && (
+          <>
+            {/* Column Mapping */}
+            <div className="space-y-3">
+              <h4 className="font-semibold text-gray-200">Column Mapping</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label className="text-gray-300">{IMPORT_FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={mapping[field] || UNMAPPED}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger className="bg-gray-950 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-900 border-gray-700">
+                        <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                        {table.columns.map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-gray-200">Preview</h4>
+                <span className="text-sm text-gray-400">
+                  {importable.length} of {preview.length} rows will be imported
+                </span>
+              </div>
+              <ScrollArea className="h-[320px] rounded-lg border border-gray-800">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                      <TableHead className="text-gray-300 w-12">#</TableHead>
+                      <TableHead className="text-gray-300">Game Name</TableHead>
+                      <TableHead className="text-gray-300">Team</TableHead>
+                      <TableHead className="text-gray-300">Tags</TableHead>
+                      <TableHead className="text-gray-300">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((row) => (
+                      <TableRow
+                        key={row.index}
+                        className={cn('border-gray-800', row.status !== 'new' && 'opacity-60')}
+                      >
+                        <TableCell className="text-gray-500">{row.index + 1}</TableCell>
+                        <TableCell className="text-white">{row.draft.gameName || '—'}</TableCell>
+                        <TableCell className="text-gray-400">{row.draft.teamName || '—'}</TableCell>
+                        <TableCell className="text-gray-400">{row.draft.tags.join(', ')}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[row.status].className}>
+                            {STATUS_STYLES[row.status].label}
+                          </Badge>
+                          {row.message && (
+                            <div className="text-xs text-gray-500 mt-1">{row.message}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+
+            <Button
+              onClick={handleImport}
+              disabled={importable.length === 0}
+              className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import {importable.length} {importable.length === 1 ? 'Submission' : 'Submissions'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,46 @@
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { ValidationIssue } from '@/types'
+
+interface ValidationIssuesTableProps {
+  issues: ValidationIssue[]
+}
+
+/**
+ * Field-level diff between an agent response and its response schema
+ */
+export function ValidationIssuesTable({ issues }: ValidationIssuesTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-800">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-gray-800 hover:bg-gray-800/50">
+            <TableHead className="text-gray-300">Field</TableHead>
+            <TableHead className="text-gray-300">Expected</TableHead>
+            <TableHead className="text-gray-300">Received</TableHead>
+            <TableHead className="text-gray-300">Outcome</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {issues.map((issue, index) => (
+            <TableRow key={`${issue.path}-${index}`} className="border-gray-800">
+              <TableCell className="font-mono text-xs text-gray-200">{issue.path}</TableCell>
+              <TableCell className="text-xs text-green-400">{issue.expected}</TableCell>
+              <TableCell className="text-xs text-red-400">{issue.received}</TableCell>
+              <TableCell>
+                <Badge
+                  className={issue.action === 'coerced'
+                    ? 'bg-orange-500/20 text-orange-400 border-orange-500/30'
+                    : 'bg-red-500/20 text-red-400 border-red-500/30'}
+                >
+                  {issue.action === 'coerced' ? 'Coerced' : 'Rejected'}
+                </Badge>
+                <div className="text-xs text-gray-500 mt-1">{issue.message}</div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+/**
+ * useEvaluationQueue Hook
+ *
+ * Runs the Game Evaluation Agent over queued score sheets with a fixed number
+ * of parallel workers, exponential-backoff retries and pause/resume/cancel.
+ *
+ * @example
+ * ```tsx
+ * const queue = useEvaluationQueue({
+ *   loadItems: () => savedItems,
+ *   onItemsChange: persist,
+ *   buildRequest: item => ({ submission, description: item.description, ... }),
+ *   onSucceeded: (item, outcome) => saveEvaluation(item, outcome)
+ * })
+ *
+ * queue.enqueue(item)
+ * queue.start()
+ * ```
+ */
+
+import { useState, useRef, useCallback } from 'react'
+import { requestEvaluation, type EvaluationOutcome, type EvaluationRequest } from '@/lib/evaluation-agent'
+import {
+  isRunnable,
+  recoverInterrupted,
+  resetForRetry,
+  retryDelay,
+  DEFAULT_QUEUE_OPTIONS,
+  type QueueOptions
+} from '@/lib/evaluation-queue'
+import { sleep } from '@/utils'
+import type { EvaluationQueueItem } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type QueueRunState = 'idle' | 'running' | 'paused'
+
+interface UseEvaluationQueueOptions {
+  /** Initial items, read once on mount */
+  loadItems: () => EvaluationQueueItem[]
+  /** Called with the full list after every change, for persistence */
+  onItemsChange?: (items: EvaluationQueueItem[]) => void
+  /** Resolve the agent request at run time; null fails the item */
+  buildRequest: (item: EvaluationQueueItem) => EvaluationRequest | null
+  /** Called once per item when the agent returns a usable result */
+  onSucceeded: (item: EvaluationQueueItem, outcome: EvaluationOutcome) => void
+}
+
+// How often paused workers check whether they may continue
+const PAUSE_POLL_MS = 250
+
+// =============================================================================
+// useEvaluationQueue Hook
+// =============================================================================
+
+export function useEvaluationQueue({
+  loadItems,
+  onItemsChange,
+  buildRequest,
+  onSucceeded
+}: UseEvaluationQueueOptions) {
+  const [items, setItems] = useState<EvaluationQueueItem[]>(() => recoverInterrupted(loadItems()))
+  const [runState, setRunState] = useState<QueueRunState>('idle')
+  const [options, setOptions] = useState<QueueOptions>(DEFAULT_QUEUE_OPTIONS)
+
+  const itemsRef = useRef(items)
+  const runStateRef = useRef<QueueRunState>('idle')
+  const cancelledRef = useRef(false)
+
+  // Workers outlive renders, so they read the latest callbacks through refs
+  const callbacksRef = useRef({ onItemsChange, buildRequest, onSucceeded })
+  callbacksRef.current = { onItemsChange, buildRequest, onSucceeded }
+
+  const commit = useCallback((next: EvaluationQueueItem[]) => {
+    itemsRef.current = next
+    setItems(next)
+    callbacksRef.current.onItemsChange?.(next)
+  }, [])
+
+  const updateItem = useCallback((id: string, patch: Partial<EvaluationQueueItem>) => {
+    commit(itemsRef.current.map(item =>
+      item.id === id ? { ...item, ...patch, updatedAt: new Date().toISOString() } : item
+    ))
+  }, [commit])
+
+  const changeRunState = useCallback((state: QueueRunState) => {
+    runStateRef.current = state
+    setRunState(state)
+  }, [])
+
+  const processItem = useCallback(async (item: EvaluationQueueItem, runOptions: QueueOptions) => {
+    for (let attempt = 1; ; attempt++) {
+      const request = callbacksRef.current.buildRequest(item)
+      if (!request) {
+        updateItem(item.id, { status: 'failed', error: 'Submission is no longer registered' })
+        return
+      }
+
+      updateItem(item.id, { status: attempt === 1 ? 'running' : 'retrying', attempts: attempt })
+      const outcome = await requestEvaluation(request)
+
+      if (cancelledRef.current) {
+        updateItem(item.id, { status: 'cancelled' })
+        return
+      }
+
+      if (outcome.success) {
+        updateItem(item.id, { status: 'succeeded', error: undefined, raw_response: undefined, validationIssues: undefined })
+        callbacksRef.current.onSucceeded(item, outcome)
+        return
+      }
+
+      const failure = {
+        error: outcome.error,
+        raw_response: outcome.raw_response,
+        validationIssues: outcome.validationIssues
+      }
+
+      if (attempt > runOptions.maxRetries) {
+        updateItem(item.id, { status: 'failed', ...failure })
+        return
+      }
+
+      updateItem(item.id, { status: 'retrying', ...failure })
+      await sleep(retryDelay(attempt, runOptions.baseDelayMs))
+
+      if (cancelledRef.current) {
+        updateItem(item.id, { status: 'cancelled' })
+        return
+      }
+    }
+  }, [updateItem])
+
+  const worker = useCallback(async (runOptions: QueueOptions) => {
+    while (!cancelledRef.current) {
+      while (runStateRef.current === 'paused' && !cancelledRef.current) {
+        await sleep(PAUSE_POLL_MS)
+      }
+      if (cancelledRef.current) return
+
+      const next = itemsRef.current.find(isRunnable)
+      if (!next) return
+
+      // Claim synchronously so other workers skip it
+      updateItem(next.id, { status: 'running' })
+      await processItem(next, runOptions)
+    }
+  }, [processItem, updateItem])
+
+  const start = useCallback(async () => {
+    if (runStateRef.current !== 'idle') return
+
+    cancelledRef.current = false
+    changeRunState('running')
+
+    const runOptions = options
+    const workers = Array.from({ length: Math.max(1, runOptions.concurrency) }, () => worker(runOptions))
+    await Promise.all(workers)
+
+    changeRunState('idle')
+  }, [options, worker, changeRunState])
+
+  const pause = useCallback(() => {
+    if (runStateRef.current === 'running') changeRunState('paused')
+  }, [changeRunState])
+
+  const resume = useCallback(() => {
+    if (runStateRef.current === 'paused') changeRunState('running')
+  }, [changeRunState])
+
+  const cancel = useCallback(() => {
+    if (runStateRef.current === 'idle') return
+    cancelledRef.current = true
+    // In-flight requests can't be aborted; their results are discarded when they return
+    commit(itemsRef.current.map(item =>
+      item.status === 'pending' ? { ...item, status: 'cancelled' } : item
+    ))
+  }, [commit])
+
+  const enqueue = useCallback((item: EvaluationQueueItem) => {
+    commit([...itemsRef.current, item])
+  }, [commit])
+
+  const retry = useCallback((ids?: string[]) => {
+    commit(resetForRetry(itemsRef.current, ids))
+  }, [commit])
+
+  const remove = useCallback((id: string) => {
+    commit(itemsRef.current.filter(item => item.id !== id || item.status === 'running' || item.status === 'retrying'))
+  }, [commit])
+
+  const clearSucceeded = useCallback(() => {
+    commit(itemsRef.current.filter(item => item.status !== 'succeeded'))
+  }, [commit])
+
+  // Swap in another event's queue; only while idle
+  const load = useCallback((next: EvaluationQueueItem[]) => {
+    if (runStateRef.current !== 'idle') return
+    const recovered = recoverInterrupted(next)
+    itemsRef.current = recovered
+    setItems(recovered)
+  }, [])
+
+  return {
+    items,
+    runState,
+    options,
+    setOptions,
+    enqueue,
+    start,
+    pause,
+    resume,
+    cancel,
+    retry,
+    remove,
+    clearSucceeded,
+    load
+  }
+}
+
+export type EvaluationQueue = ReturnType<typeof useEvaluationQueue>
@@ -0,0 +1,194 @@
+/**
+ * Multi-judge aggregation
+ * Combines every judge's score sheet for a game into one EvaluationResult
+ */
+
+import type {
+  AggregatedEvaluation,
+  AggregationMethod,
+  CriterionDefinition,
+  EvaluationResult,
+  Feedback,
+  NormalizationMethod,
+  SavedEvaluation,
+  ScoreBreakdownItem
+} from '@/types'
+import { submissionKey } from './submissions'
+import { rescoreResult } from './scoring'
+import { normalizeSheets } from './normalization'
+
+export const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  mean: 'Mean',
+  median: 'Median',
+  trimmed_mean: 'Trimmed Mean'
+}
+
+// Share of sheets dropped from each end by the trimmed mean
+const TRIM_RATIO = 0.2
+
+/**
+ * Stable key identifying a game across judges' sheets
+ */
+export function gameKey(result: Pick<EvaluationResult, 'game_name' | 'team_name'>): string {
+  return submissionKey({ gameName: result.game_name, teamName: result.team_name })
+}
+
+/**
+ * Group key for a sheet - the linked submission, else the names the agent returned
+ */
+export function evaluationKey(evaluation: SavedEvaluation): string {
+  return evaluation.submissionId || gameKey(evaluation.result)
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Combine a list of numbers with the selected method
+ */
+export function aggregateValues(values: number[], method: AggregationMethod): number {
+  if (values.length === 0) return 0
+
+  const sorted = [...values].sort((a, b) => a - b)
+
+  if (method === 'median') {
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 === 0
+      ? (sorted[mid - 1] + sorted[mid]) / 2
+      : sorted[mid]
+  }
+
+  if (method === 'trimmed_mean') {
+    const trim = Math.floor(sorted.length * TRIM_RATIO)
+    const kept = sorted.slice(trim, sorted.length - trim)
+    return kept.reduce((sum, v) => sum + v, 0) / kept.length
+  }
+
+  return sorted.reduce((sum, v) => sum + v, 0) / sorted.length
+}
+
+/**
+ * Merge feedback lists from all sheets, dropping exact duplicates
+ */
+function mergeFeedback(sheets: SavedEvaluation[]): Feedback {
+  const merge = (pick: (f: Feedback) => string[]) =>
+    Array.from(new Set(sheets.flatMap(s => pick(s.result.feedback) || [])))
+
+  return {
+    strengths: merge(f => f.strengths),
+    areas_for_growth: merge(f => f.areas_for_growth),
+    creative_insights: merge(f => f.creative_insights),
+    learning_opportunities: merge(f => f.learning_opportunities)
+  }
+}
+
+function aggregateBreakdown(sheets: SavedEvaluation[], method: AggregationMethod): ScoreBreakdownItem[] {
+  const criteria: string[] = []
+  for (const sheet of sheets) {
+    for (const item of sheet.result.score_breakdown) {
+      if (!criteria.includes(item.criterion)) criteria.push(item.criterion)
+    }
+  }
+
+  return criteria.map(criterion => {
+    const items = sheets
+      .map(s => s.result.score_breakdown.find(i => i.criterion === criterion))
+      .filter((i): i is ScoreBreakdownItem => Boolean(i))
+    return {
+      criterion,
+      raw_score: round2(aggregateValues(items.map(i => i.raw_score), method)),
+      weight: items[items.length - 1].weight,
+      weighted_score: round2(aggregateValues(items.map(i => i.weighted_score), method))
+    }
+  })
+}
+
+/**
+ * Build the combined result for one game from its judges' sheets
+ */
+function aggregateSheets(sheets: SavedEvaluation[], method: AggregationMethod): EvaluationResult {
+  const latest = sheets[sheets.length - 1].result
+  const compliantVotes = sheets.filter(s => s.result.rule_compliance.compliant).length
+
+  return {
+    game_name: latest.game_name,
+    team_name: latest.team_name,
+    weighted_score: round2(aggregateValues(sheets.map(s => s.result.weighted_score), method)),
+    max_possible_score: latest.max_possible_score,
+    percentage_score: round2(aggregateValues(sheets.map(s => s.result.percentage_score), method)),
+    score_breakdown: aggregateBreakdown(sheets, method),
+    rule_compliance: {
+      // Majority of the panel decides compliance
+      compliant: compliantVotes * 2 > sheets.length,
+      assessment: latest.rule_compliance.assessment,
+      theme_alignment: latest.rule_compliance.theme_alignment
+    },
+    feedback: mergeFeedback(sheets),
+    rank_recommendation: latest.rank_recommendation,
+    summary: latest.summary
+  }
+}
+
+/**
+ * Group saved sheets by game and aggregate each group, after normalizing each
+ * judge's scores when a normalization method is chosen
+ */
+export function aggregateEvaluations(
+  evaluations: SavedEvaluation[],
+  method: AggregationMethod,
+  criteria: CriterionDefinition[],
+  normalization: NormalizationMethod = 'none'
+): AggregatedEvaluation[] {
+  const normalized = normalization === 'none' ? null : normalizeSheets(evaluations, normalization, criteria)
+  // Rank on locally computed numbers, including for sheets saved before local scoring
+  const combine = (sheets: SavedEvaluation[], pick: (sheet: SavedEvaluation) => EvaluationResult) =>
+    aggregateSheets(sheets.map(s => ({ ...s, result: rescoreResult(pick(s), criteria) })), method)
+
+  const groups = new Map<string, SavedEvaluation[]>()
+
+  const bySavedAt = [...evaluations].sort(
+    (a, b) => new Date(a.savedAt).getTime() - new Date(b.savedAt).getTime()
+  )
+  for (const evaluation of bySavedAt) {
+    const key = evaluationKey(evaluation)
+    groups.set(key, [...(groups.get(key) || []), evaluation])
+  }
+
+  return Array.from(groups.entries()).map(([key, sheets]) => ({
+    key,
+    result: combine(sheets, s => normalized?.get(s.id) || s.result),
+    rawResult: normalized ? combine(sheets, s => s.result) : undefined,
+    sheets,
+    judgeCount: new Set(sheets.map(s => s.judgeId || s.id)).size,
+    lastSavedAt: sheets[sheets.length - 1].savedAt
+  }))
+}
+
+/**
+ * Find the sheet a new save replaces: the same sheet being edited, or the same
+ * judge's earlier sheet for the same game
+ */
+export function findJudgeSheet(
+  evaluations: SavedEvaluation[],
+  sheet: SavedEvaluation
+): SavedEvaluation | undefined {
+  const key = evaluationKey(sheet)
+  return evaluations.find(e =>
+    e.id === sheet.id || (sheet.judgeId && e.judgeId === sheet.judgeId && evaluationKey(e) === key)
+  )
+}
+
+/**
+ * Insert a judge's sheet, replacing that judge's earlier sheet for the same game
+ */
+export function upsertJudgeSheet(
+  evaluations: SavedEvaluation[],
+  sheet: SavedEvaluation
+): SavedEvaluation[] {
+  const key = evaluationKey(sheet)
+  const others = evaluations.filter(e =>
+    e.id !== sheet.id && !(sheet.judgeId && e.judgeId === sheet.judgeId && evaluationKey(e) === key)
+  )
+  return [...others, sheet]
+}
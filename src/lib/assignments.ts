@@ -0,0 +1,148 @@
+/**
+ * Judge assignments
+ * Spreads submissions across the judge panel so every game gets the same
+ * number of judges and every judge a similar load, skipping unavailable and
+ * conflicted judges
+ */
+
+import type { AssignmentPlan, Judge, JudgeAssignment, SavedEvaluation, Submission } from '@/types'
+import { findConflict } from './conflicts'
+import { toCsv } from './export'
+
+export const DEFAULT_ASSIGNMENT_PLAN: AssignmentPlan = {
+  judgesPerSubmission: 2,
+  assignments: []
+}
+
+export interface GeneratedPlan {
+  plan: AssignmentPlan
+  // Games that could not get enough judges
+  issues: string[]
+}
+
+export interface QueueEntry {
+  submission: Submission
+  // The judge has already saved a sheet for this game
+  scored: boolean
+}
+
+export function hasConflict(judge: Judge, submission: Submission): boolean {
+  return Boolean(findConflict(judge, submission))
+}
+
+export function canJudge(judge: Judge, submission: Submission): boolean {
+  return !judge.unavailable && !hasConflict(judge, submission)
+}
+
+export function isAssigned(plan: AssignmentPlan, judgeId: string, submissionId: string): boolean {
+  return plan.assignments.some(a => a.judgeId === judgeId && a.submissionId === submissionId)
+}
+
+/**
+ * Add or remove one assignment by hand; added ones are pinned
+ */
+export function toggleAssignment(plan: AssignmentPlan, judgeId: string, submissionId: string): AssignmentPlan {
+  if (isAssigned(plan, judgeId, submissionId)) {
+    return {
+      ...plan,
+      assignments: plan.assignments.filter(a => !(a.judgeId === judgeId && a.submissionId === submissionId))
+    }
+  }
+  return { ...plan, assignments: [...plan.assignments, { submissionId, judgeId, pinned: true }] }
+}
+
+/**
+ * Judge id -> number of assigned games
+ */
+export function assignmentLoads(assignments: JudgeAssignment[]): Record<string, number> {
+  const loads: Record<string, number> = {}
+  for (const assignment of assignments) {
+    loads[assignment.judgeId] = (loads[assignment.judgeId] || 0) + 1
+  }
+  return loads
+}
+
+/**
+ * Build a balanced plan. Pinned assignments that are still valid are kept;
+ * the most constrained games are filled first, each from the least loaded
+ * eligible judges
+ */
+export function generateAssignments(
+  submissions: Submission[],
+  judges: Judge[],
+  judgesPerSubmission: number,
+  current: AssignmentPlan
+): GeneratedPlan {
+  const kept = current.assignments.filter(a => {
+    const judge = judges.find(j => j.id === a.judgeId)
+    const submission = submissions.find(s => s.id === a.submissionId)
+    return a.pinned && judge && submission && canJudge(judge, submission)
+  })
+  const assignments = [...kept]
+  const loads = assignmentLoads(kept)
+  const issues: string[] = []
+
+  const eligible = (submission: Submission) => judges.filter(j => canJudge(j, submission))
+  const ordered = [...submissions].sort((a, b) => eligible(a).length - eligible(b).length)
+
+  for (const submission of ordered) {
+    const assigned = assignments.filter(a => a.submissionId === submission.id).length
+    const candidates = eligible(submission)
+      .filter(j => !assignments.some(a => a.judgeId === j.id && a.submissionId === submission.id))
+      .filter(j => !j.maxAssignments || (loads[j.id] || 0) < j.maxAssignments)
+      .sort((a, b) => (loads[a.id] || 0) - (loads[b.id] || 0) || judges.indexOf(a) - judges.indexOf(b))
+      .slice(0, Math.max(0, judgesPerSubmission - assigned))
+
+    for (const judge of candidates) {
+      assignments.push({ submissionId: submission.id, judgeId: judge.id })
+      loads[judge.id] = (loads[judge.id] || 0) + 1
+    }
+
+    const total = assigned + candidates.length
+    if (total < judgesPerSubmission) {
+      issues.push(`${submission.gameName} has ${total} of ${judgesPerSubmission} judges`)
+    }
+  }
+
+  return {
+    plan: { judgesPerSubmission, assignments, generatedAt: new Date().toISOString() },
+    issues
+  }
+}
+
+/**
+ * The games assigned to a judge, unscored ones first
+ */
+export function judgeQueue(
+  plan: AssignmentPlan,
+  judgeId: string,
+  submissions: Submission[],
+  evaluations: SavedEvaluation[]
+): QueueEntry[] {
+  return plan.assignments
+    .filter(a => a.judgeId === judgeId)
+    .map(a => submissions.find(s => s.id === a.submissionId))
+    .filter((s): s is Submission => Boolean(s))
+    .map(submission => ({
+      submission,
+      scored: evaluations.some(e => e.judgeId === judgeId && e.submissionId === submission.id)
+    }))
+    .sort((a, b) => Number(a.scored) - Number(b.scored))
+}
+
+/**
+ * One row per assignment
+ */
+export function assignmentsToCsv(plan: AssignmentPlan, submissions: Submission[], judges: Judge[]): string {
+  const rows = plan.assignments.map(a => {
+    const submission = submissions.find(s => s.id === a.submissionId)
+    const judge = judges.find(j => j.id === a.judgeId)
+    return [
+      judge?.name || a.judgeId,
+      submission?.gameName || a.submissionId,
+      submission?.teamName || '',
+      a.pinned ? 'Yes' : 'No'
+    ]
+  })
+  return toCsv({ headers: ['Judge', 'Game Name', 'Team', 'Pinned'], rows })
+}
@@ -0,0 +1,193 @@
+/**
+ * Award categories
+ * Picks a winner per category from the ranked leaderboard entries using the
+ * category's formula and eligibility filters
+ */
+
+import type {
+  AggregatedEvaluation,
+  AwardCategory,
+  AwardFormula,
+  AwardSettings,
+  CriterionDefinition,
+  RankingSettings,
+  Submission
+} from '@/types'
+import { criterionScaleMax } from './criteria'
+import { compareEntries } from './ranking'
+
+export const AWARD_FORMULA_LABELS: Record<AwardFormula, string> = {
+  criterion: 'Single criterion',
+  weighted: 'Custom weight mix',
+  manual: 'Manual pick'
+}
+
+export const DEFAULT_AWARDS: AwardSettings = {
+  categories: [
+    {
+      id: 'award-best-ai-use',
+      name: 'Best AI Use',
+      description: 'Most meaningful use of AI tools',
+      formula: 'criterion',
+      criterionId: 'aiToolUsage',
+      compliantOnly: true
+    },
+    {
+      id: 'award-most-accessible',
+      name: 'Most Accessible',
+      description: 'Playable by the widest range of players',
+      formula: 'criterion',
+      criterionId: 'accessibility',
+      compliantOnly: true
+    },
+    {
+      id: 'award-best-theme-fit',
+      name: 'Best Theme Fit',
+      description: 'Closest match to the jam theme',
+      formula: 'weighted',
+      weights: { ruleRelevance: 2, originality: 1 },
+      compliantOnly: true
+    },
+    {
+      id: 'award-audience-choice',
+      name: 'Audience Choice',
+      description: 'Picked by the audience vote',
+      formula: 'manual',
+      compliantOnly: false
+    }
+  ],
+  oneWinnerPerTeam: false
+}
+
+export interface AwardContender {
+  entry: AggregatedEvaluation
+  // 0-100; null for manual picks
+  score: number | null
+}
+
+export interface AwardResult {
+  category: AwardCategory
+  winner: AwardContender | null
+  // Eligible entries in award order, winner first
+  contenders: AwardContender[]
+  // Why there is no winner
+  note?: string
+}
+
+function teamKey(entry: AggregatedEvaluation): string {
+  return entry.result.team_name.trim().toLowerCase()
+}
+
+function criterionPercentage(entry: AggregatedEvaluation, criterionId: string, criteria: CriterionDefinition[]): number {
+  const item = entry.result.score_breakdown.find(s => s.criterion === criterionId)
+  if (!item) return 0
+  return (item.raw_score / criterionScaleMax(criteria, criterionId)) * 100
+}
+
+/**
+ * The entry's score for a category as a percentage; null for manual categories
+ */
+export function awardScore(
+  entry: AggregatedEvaluation,
+  category: AwardCategory,
+  criteria: CriterionDefinition[]
+): number | null {
+  if (category.formula === 'criterion') {
+    return criterionPercentage(entry, category.criterionId, criteria)
+  }
+  if (category.formula === 'weighted') {
+    const weights = Object.entries(category.weights || {})
+      .filter(([id, weight]) => weight > 0 && criteria.some(c => c.id === id))
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0)
+    if (total === 0) return 0
+    return weights.reduce((sum, [id, weight]) => sum + criterionPercentage(entry, id, criteria) * weight, 0) / total
+  }
+  return null
+}
+
+export function isEligible(entry: AggregatedEvaluation, category: AwardCategory, submissions: Submission[]): boolean {
+  if (category.compliantOnly && !entry.result.rule_compliance.compliant) return false
+  const tag = category.requiredTag?.trim().toLowerCase()
+  if (tag) {
+    const submission = submissions.find(s => s.id === entry.key)
+    if (!submission || !submission.tags.some(t => t.toLowerCase() === tag)) return false
+  }
+  return true
+}
+
+/**
+ * Winners for every category. `entries` should be the ranked leaderboard
+ * entries only. Manual picks are settled first so the one-winner-per-team rule
+ * never overrides an organizer's choice; equal scores fall back to the
+ * leaderboard's ranking
+ */
+export function computeAwards(
+  entries: AggregatedEvaluation[],
+  awards: AwardSettings,
+  criteria: CriterionDefinition[],
+  ranking: RankingSettings,
+  submissions: Submission[]
+): AwardResult[] {
+  const winningTeams = new Set<string>()
+  const results = new Map<string, AwardResult>()
+
+  for (const category of awards.categories.filter(c => c.formula === 'manual')) {
+    const contenders = entries
+      .filter(entry => isEligible(entry, category, submissions))
+      .map(entry => ({ entry, score: null }))
+    const winner = contenders.find(c => c.entry.key === category.manualWinnerKey) || null
+    if (winner) winningTeams.add(teamKey(winner.entry))
+    results.set(category.id, {
+      category,
+      winner,
+      contenders,
+      note: winner ? undefined : category.manualWinnerKey ? 'The picked game is no longer eligible' : 'No winner picked yet'
+    })
+  }
+
+  for (const category of awards.categories.filter(c => c.formula !== 'manual')) {
+    const contenders = entries
+      .filter(entry => isEligible(entry, category, submissions))
+      .map(entry => ({ entry, score: awardScore(entry, category, criteria) }))
+      .sort((a, b) =>
+        (b.score - a.score) ||
+        compareEntries(a.entry, b.entry, ranking, submissions) ||
+        a.entry.result.game_name.localeCompare(b.entry.result.game_name)
+      )
+    const winner = contenders.find(c => !awards.oneWinnerPerTeam || !winningTeams.has(teamKey(c.entry))) || null
+    if (winner) winningTeams.add(teamKey(winner.entry))
+
+    let note: string | undefined
+    if (!winner) {
+      note = contenders.length === 0 ? 'No eligible games' : 'Every eligible team has already won an award'
+    }
+    results.set(category.id, {
+      category,
+      winner,
+      contenders: winner ? [winner, ...contenders.filter(c => c !== winner)] : contenders,
+      note
+    })
+  }
+
+  return awards.categories.map(category => results.get(category.id))
+}
+
+/**
+ * Problems that prevent saving the award categories
+ */
+export function validateAwards(categories: AwardCategory[], criteria: CriterionDefinition[]): string[] {
+  const errors: string[] = []
+  for (const category of categories) {
+    const name = category.name.trim() || 'Unnamed award'
+    if (!category.name.trim()) errors.push('Every award needs a name')
+    if (category.formula === 'criterion' && !criteria.some(c => c.id === category.criterionId)) {
+      errors.push(`${name}: choose a criterion`)
+    }
+    if (category.formula === 'weighted') {
+      const weights = Object.entries(category.weights || {})
+        .filter(([id, weight]) => weight > 0 && criteria.some(c => c.id === id))
+      if (weights.length === 0) errors.push(`${name}: give at least one criterion a weight`)
+    }
+  }
+  return errors
+}
@@ -0,0 +1,368 @@
+/**
+ * Event backup and restore
+ * Packs one event's settings and records into a single versioned file, checks
+ * a file before it is restored, and plans how it lands: as a new event, over
+ * the event it came from, or merged into the open event
+ */
+
+import type {
+  CriteriaWeights,
+  EventRecords,
+  EventSettings,
+  JamEvent,
+  SavedEvaluation,
+  Submission
+} from '@/types'
+import { findJudgeSheet, upsertJudgeSheet } from './aggregation'
+import { criteriaWeights, validateCriteria } from './criteria'
+import type { EventScopedKey } from './events'
+import { robustJSONParse } from './json-parser'
+import { validateEvaluationResult } from './schema-validator'
+import { readEventRecord, writeEventRecord, STORAGE_SCHEMA_VERSION, type StorageWriteResult } from './storage'
+import { findDuplicateSubmission } from './submissions'
+
+export const BACKUP_FORMAT = 'game-jam-event-backup'
+export const BACKUP_VERSION = 1
+
+// The running queue and the selected judge belong to one browser, not the
+// event, and a published snapshot is rebuilt from the rest
+export const BACKUP_KEYS: EventScopedKey[] = [
+  'criteria',
+  'judges',
+  'aggregationMethod',
+  'normalization',
+  'ranking',
+  'awards',
+  'submissions',
+  'evaluations',
+  'assignmentPlan',
+  'entryStatuses',
+  'auditLog',
+  'publishSettings'
+]
+
+// Configuration a merge leaves as the open event has it
+const CONFIG_KEYS: EventScopedKey[] = [
+  'criteria',
+  'aggregationMethod',
+  'normalization',
+  'ranking',
+  'awards',
+  'assignmentPlan',
+  'publishSettings'
+]
+
+export type RestoreMode = 'new_event' | 'replace' | 'merge'
+
+export type CollisionPolicy = 'keep_existing' | 'use_backup'
+
+export type BackupRecords = Partial<Omit<EventRecords, 'evaluationQueue' | 'activeJudgeId' | 'publishedResults'>>
+
+export interface EventBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  // Storage schema the records were written with
+  schemaVersion: number
+  exportedAt: string
+  event: JamEvent
+  eventSettings: EventSettings
+  // Weights by criterion id, for readers that predate configurable criteria
+  criteriaWeights: CriteriaWeights
+  records: BackupRecords
+}
+
+export interface BackupParseResult {
+  backup: EventBackup | null
+  errors: string[]
+  // Items dropped because they failed validation
+  warnings: string[]
+}
+
+export interface RestoreCount {
+  label: string
+  added: number
+  updated: number
+  unchanged: number
+  // Kept as they were because of the collision policy, or duplicates
+  skipped: number
+  // Present now but not in the backup; only a replace drops them
+  removed: number
+}
+
+export interface RestorePlan {
+  mode: RestoreMode
+  records: BackupRecords
+  counts: RestoreCount[]
+}
+
+export const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  new_event: 'Restore as a new event',
+  replace: 'Replace the event it came from',
+  merge: 'Merge into the open event'
+}
+
+export const COLLISION_POLICY_LABELS: Record<CollisionPolicy, string> = {
+  keep_existing: 'Keep what is here',
+  use_backup: 'Take the backup version'
+}
+
+const COLLECTION_LABELS: Partial<Record<EventScopedKey, string>> = {
+  submissions: 'Submissions',
+  evaluations: 'Score sheets',
+  judges: 'Judges',
+  auditLog: 'Audit log entries',
+  entryStatuses: 'Archive / disqualify decisions'
+}
+
+export async function readBackupRecords(eventId: string): Promise<BackupRecords> {
+  const values = await Promise.all(BACKUP_KEYS.map(key => readEventRecord(eventId, key, undefined)))
+  return Object.fromEntries(
+    BACKUP_KEYS.map((key, index) => [key, values[index]]).filter(([, value]) => value !== undefined)
+  )
+}
+
+export function writeBackupRecords(eventId: string, records: BackupRecords): Promise<StorageWriteResult[]> {
+  return Promise.all(
+    (Object.keys(records) as (keyof BackupRecords)[]).map(key => writeEventRecord(eventId, key, records[key]))
+  )
+}
+
+export function createBackup(event: JamEvent, records: BackupRecords): EventBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    event,
+    eventSettings: event.settings,
+    criteriaWeights: criteriaWeights(records.criteria || []),
+    records
+  }
+}
+
+export function backupFileName(backup: EventBackup): string {
+  const slug = backup.eventSettings.eventName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'event'}-backup-${backup.exportedAt.split('T')[0]}.json`
+}
+
+function isSubmission(value: unknown): value is Submission {
+  const s = value as Submission
+  return Boolean(s && typeof s.id === 'string' && typeof s.gameName === 'string' && typeof s.teamName === 'string')
+}
+
+/**
+ * Check a backup file's format, versions and records. Structural problems are
+ * errors; individual invalid sheets or submissions are dropped with a warning
+ */
+export function parseBackup(text: string): BackupParseResult {
+  const parsed = robustJSONParse<EventBackup>(text)
+  if (!parsed.success || !parsed.data || typeof parsed.data !== 'object') {
+    return { backup: null, errors: [parsed.error || 'File is not valid JSON'], warnings: [] }
+  }
+
+  const data = parsed.data
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (data.format !== BACKUP_FORMAT) errors.push('File is not an event backup')
+  else if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    errors.push(`Backup format version ${data.version} is newer than this app understands`)
+  }
+  // Backups only exist from the current schema on; newer ones need a newer app
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > STORAGE_SCHEMA_VERSION) {
+    errors.push(`Backup uses storage schema ${data.schemaVersion}, but this app only understands up to ${STORAGE_SCHEMA_VERSION}`)
+  }
+  if (!data.event?.id || !data.eventSettings?.eventName) errors.push('Backup is missing its event settings')
+  if (!data.records || typeof data.records !== 'object') errors.push('Backup has no event records')
+  if (errors.length > 0) return { backup: null, errors, warnings }
+
+  const records: BackupRecords = { ...data.records }
+  for (const key of ['criteria', 'judges', 'submissions', 'evaluations', 'auditLog'] as const) {
+    if (records[key] !== undefined && !Array.isArray(records[key])) errors.push(`"${key}" must be a list`)
+  }
+  if (errors.length > 0) return { backup: null, errors, warnings }
+
+  if (records.criteria) {
+    errors.push(...validateCriteria(records.criteria).map(e => `Criteria: ${e}`))
+  }
+
+  if (records.submissions) {
+    const valid = records.submissions.filter(isSubmission)
+    if (valid.length < records.submissions.length) {
+      warnings.push(`${records.submissions.length - valid.length} submissions without an id, game or team name were dropped`)
+    }
+    records.submissions = valid
+  }
+
+  if (records.evaluations) {
+    records.evaluations = records.evaluations.flatMap((sheet: SavedEvaluation) => {
+      const report = validateEvaluationResult(sheet?.result)
+      if (!sheet?.id || !report.valid) {
+        warnings.push(`Dropped a score sheet for "${sheet?.result?.game_name || 'unknown game'}": invalid result`)
+        return []
+      }
+      return [{ ...sheet, result: report.value }]
+    })
+  }
+
+  return errors.length > 0
+    ? { backup: null, errors, warnings }
+    : { backup: { ...data, eventSettings: data.eventSettings || data.event.settings, records }, errors, warnings }
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function emptyCount(label: string): RestoreCount {
+  return { label, added: 0, updated: 0, unchanged: 0, skipped: 0, removed: 0 }
+}
+
+/**
+ * Combine two id-keyed lists. A merge keeps everything here and settles id
+ * collisions by policy; a replace takes the backup list as it is
+ */
+function combineById<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode,
+  policy: CollisionPolicy,
+  label: string
+): { items: T[]; count: RestoreCount } {
+  const count = emptyCount(label)
+  if (mode === 'new_event') {
+    count.added = incoming.length
+    return { items: incoming, count }
+  }
+
+  const items = mode === 'merge' ? [...current] : [...incoming]
+  for (const item of incoming) {
+    const existing = current.find(c => c.id === item.id)
+    if (!existing) count.added++
+    else if (same(existing, item)) count.unchanged++
+    else if (mode === 'replace' || policy === 'use_backup') {
+      count.updated++
+      if (mode === 'merge') items[items.indexOf(existing)] = item
+    } else count.skipped++
+  }
+  if (mode === 'merge') {
+    items.push(...incoming.filter(item => !current.some(c => c.id === item.id)))
+  } else {
+    count.removed = current.filter(c => !incoming.some(item => item.id === c.id)).length
+  }
+  return { items, count }
+}
+
+/**
+ * Merge score sheets the way a judge's save does: a sheet collides with the
+ * same id or with the same judge's sheet for the same game, so no judge ends
+ * up counted twice for one game
+ */
+function mergeSheets(
+  current: SavedEvaluation[],
+  incoming: SavedEvaluation[],
+  policy: CollisionPolicy,
+  label: string
+): { items: SavedEvaluation[]; count: RestoreCount } {
+  const count = emptyCount(label)
+  let items = [...current]
+  for (const sheet of incoming) {
+    const existing = findJudgeSheet(items, sheet)
+    if (!existing) count.added++
+    else if (same(existing, sheet)) {
+      count.unchanged++
+      continue
+    } else if (policy === 'use_backup') count.updated++
+    else {
+      count.skipped++
+      continue
+    }
+    items = upsertJudgeSheet(items, sheet)
+  }
+  return { items, count }
+}
+
+function combineRecord<T>(
+  current: Record<string, T>,
+  incoming: Record<string, T>,
+  mode: RestoreMode,
+  policy: CollisionPolicy,
+  label: string
+): { value: Record<string, T>; count: RestoreCount } {
+  const toList = (record: Record<string, T>) => Object.entries(record).map(([id, value]) => ({ id, value }))
+  const { items, count } = combineById(toList(current), toList(incoming), mode, policy, label)
+  return { value: Object.fromEntries(items.map(({ id, value }) => [id, value])), count }
+}
+
+/**
+ * What a restore will write and how each collection changes. `current` holds
+ * the target event's records (empty for a new event)
+ */
+export function planRestore(
+  backup: EventBackup,
+  current: BackupRecords,
+  mode: RestoreMode,
+  policy: CollisionPolicy
+): RestorePlan {
+  const incoming = backup.records
+  const records: BackupRecords = {}
+  const counts: RestoreCount[] = []
+
+  if (mode !== 'merge') {
+    for (const key of CONFIG_KEYS) {
+      if (incoming[key] !== undefined) (records as Record<string, unknown>)[key] = incoming[key]
+    }
+  }
+
+  // A merged submission already registered under another id keeps the id here,
+  // and the backup's sheets and decisions follow it
+  const submissionIds = new Map<string, string>()
+  let incomingSubmissions = incoming.submissions || []
+  let duplicates = 0
+  if (mode === 'merge') {
+    incomingSubmissions = incomingSubmissions.filter(submission => {
+      if ((current.submissions || []).some(s => s.id === submission.id)) return true
+      const duplicate = findDuplicateSubmission(current.submissions || [], submission)
+      if (!duplicate) return true
+      submissionIds.set(submission.id, duplicate.id)
+      duplicates++
+      return false
+    })
+  }
+  const remap = (id: string | undefined) => (id && submissionIds.get(id)) || id
+
+  const submissions = combineById(current.submissions || [], incomingSubmissions, mode, policy, COLLECTION_LABELS.submissions)
+  submissions.count.skipped += duplicates
+  records.submissions = submissions.items
+  counts.push(submissions.count)
+
+  const sheets = (incoming.evaluations || []).map(sheet => ({ ...sheet, submissionId: remap(sheet.submissionId) }))
+  const evaluations = mode === 'merge'
+    ? mergeSheets(current.evaluations || [], sheets, policy, COLLECTION_LABELS.evaluations)
+    : combineById(current.evaluations || [], sheets, mode, policy, COLLECTION_LABELS.evaluations)
+  records.evaluations = evaluations.items
+  counts.push(evaluations.count)
+
+  const judges = combineById(current.judges || [], incoming.judges || [], mode, policy, COLLECTION_LABELS.judges)
+  records.judges = judges.items
+  counts.push(judges.count)
+
+  const statuses = Object.fromEntries(
+    Object.entries(incoming.entryStatuses || {}).map(([key, status]) => [remap(key), status])
+  )
+  const entryStatuses = combineRecord(current.entryStatuses || {}, statuses, mode, policy, COLLECTION_LABELS.entryStatuses)
+  records.entryStatuses = entryStatuses.value
+  counts.push(entryStatuses.count)
+
+  const auditLog = combineById(
+    current.auditLog || [],
+    (incoming.auditLog || []).map(entry => ({ ...entry, entryKey: remap(entry.entryKey) })),
+    mode,
+    policy,
+    COLLECTION_LABELS.auditLog
+  )
+  records.auditLog = [...auditLog.items].sort((a, b) => a.at.localeCompare(b.at))
+  counts.push(auditLog.count)
+
+  return { mode, records, counts }
+}
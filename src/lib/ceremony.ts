@@ -0,0 +1,71 @@
+/**
+ * Awards ceremony
+ * Orders the presentation slides: a title, the category awards, then the
+ * ranking revealed from last place to first, ending on the podium. Tied
+ * entries share one slide
+ */
+
+import type { EventSettings } from '@/types'
+import type { AwardResult } from './awards'
+import type { RankedEntry } from './ranking'
+
+export type CeremonySlide =
+  | { kind: 'title'; eventName: string; themeDescription: string; entryCount: number }
+  | { kind: 'award'; award: AwardResult }
+  | { kind: 'rank'; rank: number; entries: RankedEntry[] }
+  | { kind: 'podium'; places: RankedEntry[][] }
+
+export interface CeremonyOptions {
+  includeAwards: boolean
+  // Reveal only ranks up to this number; 0 reveals every rank
+  topCount: number
+}
+
+export const DEFAULT_CEREMONY_OPTIONS: CeremonyOptions = {
+  includeAwards: true,
+  topCount: 0
+}
+
+// Ranks shown on the closing slide; a tie for second leaves no third place
+export const PODIUM_PLACES = 3
+
+/**
+ * Ranked entries grouped by rank number, best first; ties form one group
+ */
+export function rankGroups(ranked: RankedEntry[]): RankedEntry[][] {
+  const groups: RankedEntry[][] = []
+  for (const entry of ranked) {
+    const last = groups[groups.length - 1]
+    if (last && last[0].rank === entry.rank) last.push(entry)
+    else groups.push([entry])
+  }
+  return groups
+}
+
+/**
+ * `ranked` should be the leaderboard's ranked entries only, in ranking order,
+ * so disqualified and archived entries never appear
+ */
+export function ceremonySlides(
+  ranked: RankedEntry[],
+  awards: AwardResult[],
+  eventSettings: EventSettings,
+  options: CeremonyOptions
+): CeremonySlide[] {
+  const groups = rankGroups(ranked)
+  const revealed = options.topCount > 0 ? groups.filter(group => group[0].rank <= options.topCount) : groups
+
+  return [
+    {
+      kind: 'title',
+      eventName: eventSettings.eventName,
+      themeDescription: eventSettings.themeDescription,
+      entryCount: ranked.length
+    },
+    ...(options.includeAwards
+      ? awards.filter(award => award.winner).map(award => ({ kind: 'award' as const, award }))
+      : []),
+    ...[...revealed].reverse().map(entries => ({ kind: 'rank' as const, rank: entries[0].rank, entries })),
+    ...(groups.length > 0 ? [{ kind: 'podium' as const, places: groups.filter(group => group[0].rank <= PODIUM_PLACES) }] : [])
+  ]
+}
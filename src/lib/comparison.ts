@@ -0,0 +1,95 @@
+/**
+ * Finalist comparison
+ * Lines up two to four entries criterion by criterion and marks which feedback
+ * points each one has that the others don't
+ */
+
+import type { AggregatedEvaluation, CriterionDefinition, Feedback } from '@/types'
+
+export const MIN_COMPARED = 2
+export const MAX_COMPARED = 4
+
+export const FEEDBACK_SECTION_LABELS: Record<keyof Feedback, string> = {
+  strengths: 'Strengths',
+  areas_for_growth: 'Areas for Growth',
+  creative_insights: 'Creative Insights',
+  learning_opportunities: 'Learning Opportunities'
+}
+
+// Feedback points sharing at least this share of their words count as the same point
+const SHARED_WORD_RATIO = 0.5
+
+export interface CriterionGap {
+  criterionId: string
+  label: string
+  // Raw score as a percentage of the criterion's scale, one per compared entry
+  values: (number | undefined)[]
+  range: number
+  // Index of the entry scoring highest on the criterion
+  leader: number
+}
+
+export interface FeedbackPoint {
+  text: string
+  // Another compared entry has a matching point
+  shared: boolean
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2))
+}
+
+function similar(a: string, b: string): boolean {
+  const left = words(a)
+  const right = words(b)
+  if (left.size === 0 || right.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase()
+  const overlap = Array.from(left).filter(w => right.has(w)).length
+  return overlap / Math.min(left.size, right.size) >= SHARED_WORD_RATIO
+}
+
+/**
+ * Add or remove an entry from the comparison; adding past the limit is ignored
+ */
+export function toggleCompared(keys: string[], key: string): string[] {
+  if (keys.includes(key)) return keys.filter(k => k !== key)
+  return keys.length >= MAX_COMPARED ? keys : [...keys, key]
+}
+
+/**
+ * Every criterion with each entry's score, widest gap first
+ */
+export function criterionGaps(entries: AggregatedEvaluation[], criteria: CriterionDefinition[]): CriterionGap[] {
+  return criteria.map(criterion => {
+    const span = criterion.scaleMax - criterion.scaleMin
+    const values = entries.map(entry => {
+      const item = entry.result.score_breakdown.find(i => i.criterion === criterion.id)
+      if (!item) return undefined
+      return round2(span > 0 ? ((item.raw_score - criterion.scaleMin) / span) * 100 : 0)
+    })
+    const scored = values.filter((v): v is number => v !== undefined)
+    const best = scored.length > 0 ? Math.max(...scored) : 0
+    return {
+      criterionId: criterion.id,
+      label: criterion.label,
+      values,
+      range: scored.length >= 2 ? round2(best - Math.min(...scored)) : 0,
+      leader: values.indexOf(best)
+    }
+  }).sort((a, b) => b.range - a.range)
+}
+
+/**
+ * One feedback section for each entry, each point marked shared when another
+ * entry has a similar one
+ */
+export function feedbackDiff(entries: AggregatedEvaluation[], section: keyof Feedback): FeedbackPoint[][] {
+  const points = entries.map(entry => entry.result.feedback?.[section] || [])
+  return points.map((own, index) => own.map(text => ({
+    text,
+    shared: points.some((other, otherIndex) => otherIndex !== index && other.some(o => similar(text, o)))
+  })))
+}
@@ -0,0 +1,74 @@
+/**
+ * Conflicts of interest
+ * Matches judges' declarations against submissions so conflicted judges can't
+ * score a game, and flags sheets saved despite a conflict
+ */
+
+import type { ConflictDeclaration, Judge, SavedEvaluation, Submission } from '@/types'
+
+export const CONFLICT_KIND_LABELS: Record<ConflictDeclaration['kind'], string> = {
+  team: 'Team',
+  member: 'Team member',
+  submission: 'Submission'
+}
+
+export interface ConflictedSheet {
+  sheet: SavedEvaluation
+  conflict: ConflictDeclaration
+  reason: string
+}
+
+type ConflictTarget = Pick<Submission, 'id' | 'teamName' | 'members'>
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+export function createConflict(kind: ConflictDeclaration['kind'], value: string): ConflictDeclaration {
+  return { kind, value: value.trim(), declaredAt: new Date().toISOString() }
+}
+
+/**
+ * The first of the judge's declarations that covers the submission
+ */
+export function findConflict(judge: Judge, submission: ConflictTarget): ConflictDeclaration | null {
+  return (judge.conflicts || []).find(conflict => {
+    if (conflict.kind === 'team') return normalize(conflict.value) === normalize(submission.teamName)
+    if (conflict.kind === 'member') return submission.members.some(m => normalize(m) === normalize(conflict.value))
+    return conflict.value === submission.id
+  }) || null
+}
+
+export function describeConflict(conflict: ConflictDeclaration, submissions: Submission[]): string {
+  const value = conflict.kind === 'submission'
+    ? submissions.find(s => s.id === conflict.value)?.gameName || 'a removed submission'
+    : conflict.value
+  return `${CONFLICT_KIND_LABELS[conflict.kind]}: ${value}`
+}
+
+/**
+ * Sheets whose judge has declared a conflict with the game. Sheets not linked
+ * to a submission are checked against the team name the agent returned
+ */
+export function findConflictedSheets(
+  evaluations: SavedEvaluation[],
+  judges: Judge[],
+  submissions: Submission[]
+): ConflictedSheet[] {
+  const flagged: ConflictedSheet[] = []
+  for (const sheet of evaluations) {
+    const judge = judges.find(j => j.id === sheet.judgeId)
+    if (!judge) continue
+    const target: ConflictTarget = submissions.find(s => s.id === sheet.submissionId) ||
+      { id: sheet.submissionId || '', teamName: sheet.result.team_name, members: [] }
+    const conflict = findConflict(judge, target)
+    if (conflict) {
+      flagged.push({
+        sheet,
+        conflict,
+        reason: `${judge.name} declared a conflict (${describeConflict(conflict, submissions)})`
+      })
+    }
+  }
+  return flagged
+}
@@ -0,0 +1,213 @@
+/**
+ * Judging criteria definitions
+ * Criteria are data: each jam defines its own rubric in Settings, and the
+ * evaluate form, agent payload, leaderboard and exports follow it
+ */
+
+import type { CriteriaScores, CriteriaWeights, CriterionDefinition, RubricLevel } from '@/types'
+
+/**
+ * Anchored bands on the default 1-10 scale
+ */
+function levels(weak: string, developing: string, strong: string, exceptional: string): RubricLevel[] {
+  return [
+    { min: 1, max: 3, descriptor: weak },
+    { min: 4, max: 6, descriptor: developing },
+    { min: 7, max: 8, descriptor: strong },
+    { min: 9, max: 10, descriptor: exceptional }
+  ]
+}
+
+// Default rubric from PRD
+export const DEFAULT_CRITERIA: CriterionDefinition[] = [
+  {
+    id: 'originality', label: 'Originality', description: 'Novelty of the concept and mechanics', scaleMin: 1, scaleMax: 10, weight: 15,
+    levels: levels(
+      'Direct clone of a well-known game with no twist',
+      'Familiar genre with one or two fresh ideas',
+      'Clearly distinct concept or a genuinely new mechanic',
+      'Surprising idea that reframes what the genre can be'
+    )
+  },
+  {
+    id: 'aiToolUsage', label: 'AI Tool Usage', description: 'How meaningfully AI tools shape the game and its creation', scaleMin: 1, scaleMax: 10, weight: 20,
+    levels: levels(
+      'AI barely used, or only for incidental assets',
+      'AI used for several assets or code, but swappable',
+      'AI tools are central to the content or the workflow',
+      'The game could not exist without its creative use of AI'
+    )
+  },
+  {
+    id: 'playability', label: 'Playability', description: 'How fun and understandable the game is to play', scaleMin: 1, scaleMax: 10, weight: 15,
+    levels: levels(
+      'Hard to start or understand; frequent blockers',
+      'Playable with some confusion or friction',
+      'Clear goals and a satisfying core loop',
+      'Compelling to replay; controls and feedback feel effortless'
+    )
+  },
+  {
+    id: 'polish', label: 'Polish', description: 'Visual, audio and UX refinement', scaleMin: 1, scaleMax: 10, weight: 10,
+    levels: levels(
+      'Placeholder art and audio, visible bugs',
+      'Consistent look but rough edges in UX or audio',
+      'Cohesive presentation with few noticeable flaws',
+      'Feels like a finished commercial release'
+    )
+  },
+  {
+    id: 'completeness', label: 'Completeness', description: 'Whether the game delivers a full, finishable experience', scaleMin: 1, scaleMax: 10, weight: 10,
+    levels: levels(
+      'Prototype or tech demo without a playable goal',
+      'Core loop works but content or ending is missing',
+      'Start-to-finish experience with minor gaps',
+      'Complete experience with menus, progression and ending'
+    )
+  },
+  {
+    id: 'presentation', label: 'Presentation', description: 'Quality of the submission page, pitch and demo', scaleMin: 1, scaleMax: 10, weight: 10,
+    levels: levels(
+      'Little or no description, screenshots or instructions',
+      'Basic description and instructions',
+      'Clear pitch with visuals and how-to-play',
+      'Memorable pitch, trailer or devlog that sells the idea'
+    )
+  },
+  {
+    id: 'technicalComplexity', label: 'Technical Complexity', description: 'Ambition and difficulty of the implementation', scaleMin: 1, scaleMax: 10, weight: 5,
+    levels: levels(
+      'Template or tutorial project with minimal changes',
+      'Standard systems implemented competently',
+      'Non-trivial systems such as procedural content or custom AI',
+      'Impressive engineering given the jam time limit'
+    )
+  },
+  {
+    id: 'accessibility', label: 'Accessibility', description: 'Support for a wide range of players and devices', scaleMin: 1, scaleMax: 10, weight: 5,
+    levels: levels(
+      'Blocks many players (tiny text, no controls info, one device)',
+      'Some consideration such as remappable keys or readable text',
+      'Several accessibility options and broad device support',
+      'Designed for inclusion from the start'
+    )
+  },
+  {
+    id: 'ruleRelevance', label: 'Rule Relevance', description: 'How closely the game follows the event rules and theme', scaleMin: 1, scaleMax: 10, weight: 10,
+    levels: levels(
+      'Ignores the theme or breaks event rules',
+      'Theme present but superficial',
+      'Theme shapes the gameplay and all rules are met',
+      'Inventive interpretation of the theme that elevates the game'
+    )
+  }
+]
+
+// Scale assumed for criteria that are no longer defined
+const FALLBACK_SCALE_MAX = 10
+
+/**
+ * Weight per criterion id, as sent to the agent
+ */
+export function criteriaWeights(criteria: CriterionDefinition[]): CriteriaWeights {
+  return Object.fromEntries(criteria.map(c => [c.id, c.weight]))
+}
+
+export function totalWeight(criteria: CriterionDefinition[]): number {
+  return criteria.reduce((sum, c) => sum + c.weight, 0)
+}
+
+/**
+ * Display label for a criterion id, falling back to the id for retired criteria
+ */
+export function criterionLabel(criteria: CriterionDefinition[], id: string): string {
+  return criteria.find(c => c.id === id)?.label || id
+}
+
+export function criterionScaleMax(criteria: CriterionDefinition[], id: string): number {
+  return criteria.find(c => c.id === id)?.scaleMax ?? FALLBACK_SCALE_MAX
+}
+
+/**
+ * Rubric level covering a score, if any
+ */
+export function levelForScore(criterion: CriterionDefinition, score: number | undefined): RubricLevel | null {
+  if (typeof score !== 'number') return null
+  return (criterion.levels || []).find(level => score >= level.min && score <= level.max) || null
+}
+
+/**
+ * Blank level starting just above the highest existing band
+ */
+export function nextRubricLevel(criterion: CriterionDefinition): RubricLevel {
+  const top = Math.max(criterion.scaleMin - 1, ...(criterion.levels || []).map(level => level.max))
+  const min = Math.min(top + 1, criterion.scaleMax)
+  return { min, max: criterion.scaleMax, descriptor: '' }
+}
+
+/**
+ * Criteria the judge has not scored yet
+ */
+export function unscoredCriteria(criteria: CriterionDefinition[], scores: CriteriaScores): CriterionDefinition[] {
+  return criteria.filter(c => typeof scores[c.id] !== 'number')
+}
+
+/**
+ * Derive a stable camelCase id from a label, unique among existing criteria
+ */
+export function criterionIdFromLabel(label: string, existing: CriterionDefinition[]): string {
+  const words = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean)
+  const base = words.length > 0
+    ? words.map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1))).join('')
+    : 'criterion'
+
+  let id = base
+  for (let n = 2; existing.some(c => c.id === id); n++) {
+    id = `${base}${n}`
+  }
+  return id
+}
+
+/**
+ * Move a criterion one position up or down
+ */
+export function moveCriterion(criteria: CriterionDefinition[], index: number, direction: -1 | 1): CriterionDefinition[] {
+  const target = index + direction
+  if (target < 0 || target >= criteria.length) return criteria
+  const next = [...criteria]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+/**
+ * Problems that prevent saving a criteria set
+ */
+export function validateCriteria(criteria: CriterionDefinition[]): string[] {
+  const errors: string[] = []
+  if (criteria.length === 0) errors.push('Define at least one criterion')
+  if (totalWeight(criteria) !== 100) errors.push(`Total weight must equal 100% (currently ${totalWeight(criteria)}%)`)
+  for (const c of criteria) {
+    if (!c.label.trim()) errors.push('Every criterion needs a name')
+    if (c.scaleMin < 0 || c.scaleMax <= c.scaleMin) errors.push(`${c.label || c.id}: scale maximum must be above its minimum`)
+
+    const sorted = [...(c.levels || [])].sort((a, b) => a.min - b.min)
+    sorted.forEach((level, i) => {
+      const name = `${c.label || c.id} level ${level.min}-${level.max}`
+      if (!level.descriptor.trim()) errors.push(`${name}: descriptor is empty`)
+      if (level.max < level.min) errors.push(`${name}: range is reversed`)
+      if (level.min < c.scaleMin || level.max > c.scaleMax) errors.push(`${name}: outside the ${c.scaleMin}-${c.scaleMax} scale`)
+      if (i > 0 && level.min <= sorted[i - 1].max) errors.push(`${name}: overlaps the previous level`)
+    })
+  }
+  return errors
+}
+
+/**
+ * Build the criteria set from the legacy nine-key weights object
+ */
+export function criteriaFromLegacyWeights(weights: Record<string, number>): CriterionDefinition[] {
+  return DEFAULT_CRITERIA.map(c => ({
+    ...c,
+    weight: typeof weights[c.id] === 'number' ? weights[c.id] : c.weight
+  }))
+}
@@ -0,0 +1,154 @@
+/**
+ * Dashboard charts
+ * Chart data built from the ranked entries, and the leaderboard filters a
+ * click on a chart segment produces
+ */
+
+import type { AggregatedEvaluation, CriterionDefinition } from '@/types'
+
+// Width of each histogram bin in percentage points
+export const SCORE_BIN_SIZE = 10
+
+export type DashboardFilter =
+  | { kind: 'score'; min: number; max: number; label: string }
+  | { kind: 'compliance'; compliant: boolean; label: string }
+  | { kind: 'criterion'; criterionId: string; average: number; label: string }
+  | { kind: 'hour'; start: string; label: string }
+  | { kind: 'entry'; key: string; label: string }
+
+export interface ScoreBin {
+  min: number
+  max: number
+  label: string
+  count: number
+}
+
+export interface CriterionAverage {
+  criterionId: string
+  label: string
+  // Mean raw score as a percentage of the criterion's scale
+  average: number
+}
+
+export interface HourBucket {
+  start: string
+  label: string
+  count: number
+}
+
+export interface ScatterPoint {
+  key: string
+  name: string
+  x: number
+  y: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function scalePercentage(entry: AggregatedEvaluation, criterion: CriterionDefinition): number | undefined {
+  const item = entry.result.score_breakdown.find(i => i.criterion === criterion.id)
+  if (!item) return undefined
+  const span = criterion.scaleMax - criterion.scaleMin
+  return span > 0 ? ((item.raw_score - criterion.scaleMin) / span) * 100 : 0
+}
+
+function hourStart(timestamp: string): number {
+  const date = new Date(timestamp)
+  date.setMinutes(0, 0, 0)
+  return date.getTime()
+}
+
+/**
+ * Entries per percentage band; 100% falls in the top bin
+ */
+export function scoreHistogram(entries: AggregatedEvaluation[]): ScoreBin[] {
+  const bins: ScoreBin[] = []
+  for (let min = 0; min < 100; min += SCORE_BIN_SIZE) {
+    const max = min + SCORE_BIN_SIZE
+    bins.push({ min, max, label: `${min}–${max}%`, count: 0 })
+  }
+  for (const entry of entries) {
+    const index = Math.min(bins.length - 1, Math.floor(entry.result.percentage_score / SCORE_BIN_SIZE))
+    bins[Math.max(0, index)].count++
+  }
+  return bins
+}
+
+export function criterionAverages(entries: AggregatedEvaluation[], criteria: CriterionDefinition[]): CriterionAverage[] {
+  return criteria.map(criterion => {
+    const values = entries.map(e => scalePercentage(e, criterion)).filter((v): v is number => v !== undefined)
+    const average = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+    return { criterionId: criterion.id, label: criterion.label, average: round2(average) }
+  })
+}
+
+export function complianceBreakdown(entries: AggregatedEvaluation[]): { compliant: boolean; count: number }[] {
+  return [true, false].map(compliant => ({
+    compliant,
+    count: entries.filter(e => e.result.rule_compliance.compliant === compliant).length
+  }))
+}
+
+/**
+ * Sheets saved in each clock hour from the first sheet to the last, empty
+ * hours included
+ */
+export function evaluationsPerHour(entries: AggregatedEvaluation[]): HourBucket[] {
+  const starts = entries.flatMap(e => e.sheets.map(s => hourStart(s.savedAt))).filter(t => !isNaN(t))
+  if (starts.length === 0) return []
+  const first = Math.min(...starts)
+  const last = Math.max(...starts)
+  const buckets: HourBucket[] = []
+  for (let time = first; time <= last; time += HOUR_MS) {
+    const start = new Date(time)
+    buckets.push({
+      start: start.toISOString(),
+      label: start.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' }),
+      count: starts.filter(t => t === time).length
+    })
+  }
+  return buckets
+}
+
+export function criterionScatter(
+  entries: AggregatedEvaluation[],
+  x: CriterionDefinition,
+  y: CriterionDefinition
+): ScatterPoint[] {
+  return entries.flatMap(entry => {
+    const xValue = scalePercentage(entry, x)
+    const yValue = scalePercentage(entry, y)
+    if (xValue === undefined || yValue === undefined) return []
+    return [{ key: entry.key, name: entry.result.game_name, x: round2(xValue), y: round2(yValue) }]
+  })
+}
+
+export function matchesDashboardFilter(
+  entry: AggregatedEvaluation,
+  filter: DashboardFilter,
+  criteria: CriterionDefinition[]
+): boolean {
+  switch (filter.kind) {
+    case 'score': {
+      const score = entry.result.percentage_score
+      return score >= filter.min && (score < filter.max || (filter.max >= 100 && score <= 100))
+    }
+    case 'compliance':
+      return entry.result.rule_compliance.compliant === filter.compliant
+    case 'criterion': {
+      const criterion = criteria.find(c => c.id === filter.criterionId)
+      const value = criterion ? scalePercentage(entry, criterion) : undefined
+      return value !== undefined && value >= filter.average
+    }
+    case 'hour': {
+      const start = new Date(filter.start).getTime()
+      return entry.sheets.some(s => hourStart(s.savedAt) === start)
+    }
+    case 'entry':
+      return entry.key === filter.key
+  }
+}
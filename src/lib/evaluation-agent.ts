@@ -0,0 +1,116 @@
+/**
+ * Game Evaluation Agent client
+ * Builds the agent payload for a scored submission and normalizes its answer
+ */
+
+import { callAIAgent } from '@/utils/aiAgent'
+import type {
+  CriteriaScores,
+  CriterionDefinition,
+  EvaluationMetadata,
+  EvaluationResult,
+  ScoreDiscrepancy,
+  Submission,
+  ValidationIssue
+} from '@/types'
+import { applyLocalScore } from './scoring'
+import { criteriaWeights } from './criteria'
+import { validateEvaluationResult } from './schema-validator'
+
+// Agent ID from test results
+export const GAME_EVALUATION_AGENT_ID = '6972544f1d92f5e2dd22ee9c'
+
+export interface EvaluationRequest {
+  submission: Submission
+  description: string
+  scores: CriteriaScores
+  criteria: CriterionDefinition[]
+  rules: string[]
+  complianceNotes: string
+}
+
+export interface EvaluationOutcome {
+  success: boolean
+  result?: EvaluationResult
+  metadata?: EvaluationMetadata
+  discrepancies?: ScoreDiscrepancy[]
+  // Coerced fields on success, rejected fields on failure
+  validationIssues?: ValidationIssue[]
+  error?: string
+  raw_response?: string
+}
+
+/**
+ * Message sent to the agent - shape documented in workflow.json
+ */
+export function buildEvaluationPayload(request: EvaluationRequest) {
+  return {
+    gameName: request.submission.gameName,
+    teamName: request.submission.teamName,
+    description: request.description.trim(),
+    scores: request.scores,
+    criteriaWeights: criteriaWeights(request.criteria),
+    criteria: request.criteria.map(c => ({
+      id: c.id,
+      name: c.label,
+      description: c.description,
+      scale: `${c.scaleMin}-${c.scaleMax}`,
+      weight: c.weight,
+      rubric: (c.levels || []).map(level => ({
+        scores: `${level.min}-${level.max}`,
+        descriptor: level.descriptor
+      }))
+    })),
+    eventRules: request.rules.join('. '),
+    complianceNotes: request.complianceNotes.trim()
+  }
+}
+
+/**
+ * Run the Game Evaluation Agent for one scored submission
+ */
+export async function requestEvaluation(request: EvaluationRequest): Promise<EvaluationOutcome> {
+  try {
+    const response = await callAIAgent(JSON.stringify(buildEvaluationPayload(request)), GAME_EVALUATION_AGENT_ID)
+
+    if (response.success && response.response.status === 'success') {
+      const validation = validateEvaluationResult(response.response.result)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: 'Agent response failed schema validation',
+          validationIssues: validation.issues,
+          raw_response: response.raw_response
+        }
+      }
+
+      // Numbers are recomputed locally; the agent is trusted for the qualitative feedback only
+      const { result, discrepancies } = applyLocalScore(
+        validation.value,
+        request.scores,
+        request.criteria
+      )
+      return {
+        success: true,
+        // Names always come from the registry, never from the agent's echo
+        result: {
+          ...result,
+          game_name: request.submission.gameName,
+          team_name: request.submission.teamName
+        },
+        metadata: response.response.metadata as EvaluationMetadata,
+        discrepancies,
+        validationIssues: validation.issues,
+        raw_response: response.raw_response
+      }
+    }
+
+    return {
+      success: false,
+      error: response.error || response.response.message || 'Evaluation failed',
+      raw_response: response.raw_response
+    }
+  } catch (e) {
+    return { success: false, error: 'Network error during evaluation' }
+  }
+}
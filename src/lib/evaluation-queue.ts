@@ -0,0 +1,122 @@
+/**
+ * Batch evaluation queue helpers
+ * Item creation, status transitions and retry backoff for useEvaluationQueue
+ */
+
+import type {
+  CriteriaScores,
+  EvaluationQueueItem,
+  Judge,
+  QueueItemStatus,
+  Submission
+} from '@/types'
+
+export interface QueueOptions {
+  concurrency: number
+  maxRetries: number
+  baseDelayMs: number
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 2000
+}
+
+// Backoff never waits longer than this between attempts
+const MAX_RETRY_DELAY_MS = 60000
+
+export const QUEUE_STATUS_LABELS: Record<QueueItemStatus, string> = {
+  pending: 'Pending',
+  running: 'Running',
+  retrying: 'Retrying',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+export function createQueueItem({
+  submission,
+  judge,
+  description,
+  scores,
+  complianceNotes
+}: {
+  submission: Submission
+  judge: Judge
+  description: string
+  scores: CriteriaScores
+  complianceNotes: string
+}): EvaluationQueueItem {
+  const now = new Date().toISOString()
+  return {
+    id: `queue-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    submissionId: submission.id,
+    gameName: submission.gameName,
+    teamName: submission.teamName,
+    judgeId: judge.id,
+    judgeName: judge.name,
+    description,
+    scores,
+    complianceNotes,
+    status: 'pending',
+    attempts: 0,
+    enqueuedAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Exponential backoff with a little jitter so parallel workers don't retry in lockstep
+ */
+export function retryDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * Math.pow(2, Math.max(0, attempt - 1))
+  const jitter = Math.random() * baseDelayMs * 0.25
+  return Math.min(MAX_RETRY_DELAY_MS, exponential + jitter)
+}
+
+/**
+ * Whether an item can be picked up by a worker
+ */
+export function isRunnable(item: EvaluationQueueItem): boolean {
+  return item.status === 'pending'
+}
+
+/**
+ * Whether an item is currently held by a worker
+ */
+export function isInFlight(item: EvaluationQueueItem): boolean {
+  return item.status === 'running' || item.status === 'retrying'
+}
+
+/**
+ * Put failed or cancelled items back in line, clearing their previous attempts
+ */
+export function resetForRetry(items: EvaluationQueueItem[], ids?: string[]): EvaluationQueueItem[] {
+  const now = new Date().toISOString()
+  return items.map(item =>
+    (item.status === 'failed' || item.status === 'cancelled') && (!ids || ids.includes(item.id))
+      ? { ...item, status: 'pending', attempts: 0, error: undefined, updatedAt: now }
+      : item
+  )
+}
+
+/**
+ * Items left mid-run by a closed tab go back to pending on load
+ */
+export function recoverInterrupted(items: EvaluationQueueItem[]): EvaluationQueueItem[] {
+  return items.map(item => (isInFlight(item) ? { ...item, status: 'pending' } : item))
+}
+
+export function summarizeQueue(items: EvaluationQueueItem[]): Record<QueueItemStatus, number> {
+  const counts: Record<QueueItemStatus, number> = {
+    pending: 0,
+    running: 0,
+    retrying: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0
+  }
+  for (const item of items) counts[item.status]++
+  return counts
+}
@@ -0,0 +1,75 @@
+/**
+ * Event (jam) helpers
+ * Every jam keeps its own settings, criteria, judges, submissions and
+ * evaluations; storage keys are namespaced by event id
+ */
+
+import type { EventRecords, EventSettings, JamEvent } from '@/types'
+
+export type EventScopedKey = keyof EventRecords
+
+// Per-event storage keys
+export const EVENT_SCOPED_KEYS: EventScopedKey[] = [
+  'criteria',
+  'judges',
+  'activeJudgeId',
+  'aggregationMethod',
+  'normalization',
+  'ranking',
+  'awards',
+  'submissions',
+  'evaluations',
+  'evaluationQueue',
+  'assignmentPlan',
+  'entryStatuses',
+  'auditLog',
+  'publishSettings',
+  'publishedResults'
+]
+
+// Configuration carried over when an event is cloned as a template
+export const TEMPLATE_KEYS: EventScopedKey[] = ['criteria', 'judges', 'aggregationMethod', 'normalization', 'ranking', 'awards']
+
+export const DEFAULT_EVENT_SETTINGS: EventSettings = {
+  eventName: 'AI Game Jam 2024',
+  themeDescription: 'Artistic Expression through AI',
+  rules: [
+    'Game must use at least 2 AI tools',
+    'Game must be playable in browser',
+    'Must align with the Artistic Expression theme'
+  ]
+}
+
+export function scopedKey(eventId: string, key: EventScopedKey): string {
+  return `event:${eventId}:${key}`
+}
+
+export function createEvent(settings: EventSettings): JamEvent {
+  return {
+    id: `event-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    settings: { ...settings, rules: [...settings.rules] },
+    createdAt: new Date().toISOString()
+  }
+}
+
+/**
+ * New, unarchived event with the source's settings; the caller copies
+ * TEMPLATE_KEYS data
+ */
+export function cloneEvent(source: JamEvent): JamEvent {
+  return createEvent({ ...source.settings, eventName: `${source.settings.eventName} (Copy)` })
+}
+
+export function isArchived(event: JamEvent | undefined): boolean {
+  return Boolean(event?.archivedAt)
+}
+
+/**
+ * Active events first (newest first), archived events after
+ */
+export function sortEvents(events: JamEvent[]): JamEvent[] {
+  return [...events].sort((a, b) => {
+    if (isArchived(a) !== isArchived(b)) return isArchived(a) ? 1 : -1
+    return b.createdAt.localeCompare(a.createdAt)
+  })
+}
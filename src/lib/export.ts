@@ -0,0 +1,344 @@
+/**
+ * Leaderboard export
+ * Builds one table from the ranked entries with the chosen columns and writes
+ * it as RFC 4180 CSV, XLSX or Markdown; JSON keeps every sheet so an export
+ * can be imported again
+ */
+
+import type {
+  AggregatedEvaluation,
+  CriterionDefinition,
+  Feedback,
+  SavedEvaluation
+} from '@/types'
+import { FEEDBACK_SECTION_LABELS } from './comparison'
+import { robustJSONParse } from './json-parser'
+import { isDisqualified } from './moderation'
+import type { RankedEntry } from './ranking'
+import { validateSavedEvaluation } from './schema-validator'
+import { createZip } from './zip'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'markdown'
+
+export type ExportColumn =
+  | 'rank'
+  | 'game'
+  | 'team'
+  | 'judges'
+  | 'total'
+  | 'percentage'
+  | 'raw_percentage'
+  | 'compliant'
+  | 'status'
+  | 'criteria'
+
+export type ScoreMode = 'weighted' | 'raw' | 'both'
+
+export interface ExportOptions {
+  format: ExportFormat
+  columns: ExportColumn[]
+  scoreMode: ScoreMode
+  includeFeedback: boolean
+}
+
+export interface ExportTable {
+  headers: string[]
+  rows: (string | number)[][]
+}
+
+export interface ResultsImport {
+  sheets: SavedEvaluation[]
+  errors: string[]
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON (full, re-importable)',
+  markdown: 'Markdown'
+}
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  rank: 'Rank',
+  game: 'Game Name',
+  team: 'Team',
+  judges: 'Judges',
+  total: 'Total Score',
+  percentage: 'Percentage',
+  raw_percentage: 'Raw Percentage',
+  compliant: 'Compliant',
+  status: 'Status',
+  criteria: 'Criterion Scores'
+}
+
+export const SCORE_MODE_LABELS: Record<ScoreMode, string> = {
+  weighted: 'Weighted points',
+  raw: 'Raw scores',
+  both: 'Raw and weighted'
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  columns: ['rank', 'game', 'team', 'judges', 'total', 'percentage', 'compliant', 'status', 'criteria'],
+  scoreMode: 'weighted',
+  includeFeedback: false
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  json: 'json',
+  markdown: 'md'
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+  markdown: 'text/markdown'
+}
+
+// Identifies our JSON exports on import
+const RESULTS_FORMAT = 'game-jam-results'
+const RESULTS_VERSION = 1
+
+export function exportFileName(format: ExportFormat, date = new Date()): string {
+  return `leaderboard-${date.toISOString().split('T')[0]}.${FILE_EXTENSIONS[format]}`
+}
+
+/**
+ * One row per entry, with the chosen columns in a fixed order
+ */
+export function buildExportTable(
+  entries: AggregatedEvaluation[],
+  ranks: Record<string, RankedEntry>,
+  criteria: CriterionDefinition[],
+  options: ExportOptions
+): ExportTable {
+  const has = (column: ExportColumn) => options.columns.includes(column)
+  const withRaw = options.scoreMode !== 'weighted'
+  const withWeighted = options.scoreMode !== 'raw'
+  const feedbackSections = Object.keys(FEEDBACK_SECTION_LABELS) as (keyof Feedback)[]
+
+  const headers = [
+    ...(has('rank') ? ['Rank'] : []),
+    ...(has('game') ? ['Game Name'] : []),
+    ...(has('team') ? ['Team'] : []),
+    ...(has('judges') ? ['Judges'] : []),
+    ...(has('total') ? ['Total Score'] : []),
+    ...(has('percentage') ? ['Percentage'] : []),
+    ...(has('raw_percentage') ? ['Raw Percentage'] : []),
+    ...(has('compliant') ? ['Compliant'] : []),
+    ...(has('status') ? ['Status'] : []),
+    ...(has('criteria')
+      ? criteria.flatMap(c => [
+        ...(withRaw ? [`${c.label} (raw)`] : []),
+        ...(withWeighted ? [`${c.label} (weighted)`] : [])
+      ])
+      : []),
+    ...(options.includeFeedback
+      ? [
+        'Compliance Assessment',
+        'Theme Alignment',
+        ...feedbackSections.map(section => FEEDBACK_SECTION_LABELS[section]),
+        'Rank Recommendation',
+        'Summary'
+      ]
+      : [])
+  ]
+
+  const rows = entries.map(entry => {
+    const { result } = entry
+    const item = (id: string) => result.score_breakdown.find(s => s.criterion === id)
+    return [
+      ...(has('rank') ? [ranks[entry.key]?.rank ?? ''] : []),
+      ...(has('game') ? [result.game_name] : []),
+      ...(has('team') ? [result.team_name] : []),
+      ...(has('judges') ? [entry.judgeCount] : []),
+      ...(has('total') ? [result.weighted_score] : []),
+      ...(has('percentage') ? [Number(result.percentage_score.toFixed(2))] : []),
+      ...(has('raw_percentage') ? [Number((entry.rawResult || result).percentage_score.toFixed(2))] : []),
+      ...(has('compliant') ? [result.rule_compliance.compliant ? 'Yes' : 'No'] : []),
+      ...(has('status') ? [isDisqualified(entry) ? 'Disqualified' : 'Ranked'] : []),
+      ...(has('criteria')
+        ? criteria.flatMap(c => [
+          ...(withRaw ? [item(c.id)?.raw_score ?? ''] : []),
+          ...(withWeighted ? [item(c.id)?.weighted_score ?? 0] : [])
+        ])
+        : []),
+      ...(options.includeFeedback
+        ? [
+          result.rule_compliance.assessment,
+          result.rule_compliance.theme_alignment,
+          ...feedbackSections.map(section => (result.feedback?.[section] || []).join('\n')),
+          result.rank_recommendation,
+          result.summary
+        ]
+        : [])
+    ]
+  })
+
+  return { headers, rows }
+}
+
+function csvField(value: string | number): string {
+  const text = String(value ?? '')
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * RFC 4180: CRLF line breaks, fields with commas, quotes or line breaks quoted
+ */
+export function toCsv(table: ExportTable): string {
+  return [table.headers, ...table.rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function markdownCell(value: string | number): string {
+  return String(value ?? '')
+    .replace(/</g, '&lt;')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>')
+}
+
+export function toMarkdown(table: ExportTable, title: string): string {
+  const line = (cells: (string | number)[]) => `| ${cells.map(markdownCell).join(' | ')} |`
+  return [
+    `# ${title}`,
+    '',
+    line(table.headers),
+    line(table.headers.map(() => '---')),
+    ...table.rows.map(line),
+    ''
+  ].join('\n')
+}
+
+// Control characters other than tab and line breaks aren't allowed in XML
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0)
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+}
+
+function xmlEscape(value: string): string {
+  return Array.from(value).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function xlsxCell(value: string | number, ref: string): string {
+  if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(value ?? ''))}</t></is></c>`
+}
+
+/**
+ * A single-sheet workbook using inline strings, so no shared string table or
+ * styles part is needed
+ */
+export function toXlsx(table: ExportTable, sheetName: string): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const rows = [table.headers, ...table.rows].map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`)).join('')}</row>`
+  )
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  const name = xmlEscape(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Leaderboard')
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${rows.join('')}</sheetData>` +
+      '</worksheet>'
+  }
+
+  return createZip(Object.entries(files).map(([fileName, content]) => ({ name: fileName, data: encoder.encode(content) })))
+}
+
+/**
+ * Everything needed to rebuild the leaderboard: criteria, each entry's rank and
+ * status, and every judge's sheet
+ */
+export function toResultsJson(
+  entries: AggregatedEvaluation[],
+  ranks: Record<string, RankedEntry>,
+  criteria: CriterionDefinition[],
+  eventName: string
+): string {
+  return JSON.stringify({
+    format: RESULTS_FORMAT,
+    version: RESULTS_VERSION,
+    exportedAt: new Date().toISOString(),
+    eventName,
+    criteria,
+    entries: entries.map(entry => ({
+      key: entry.key,
+      rank: ranks[entry.key]?.rank ?? null,
+      status: entry.status || null,
+      result: entry.result,
+      sheets: entry.sheets
+    }))
+  }, null, 2)
+}
+
+/**
+ * Read the sheets back out of a JSON export; sheets missing their id, save
+ * time, or a result or metadata that passes the evaluation schema are
+ * reported and skipped
+ */
+export function parseResultsJson(text: string): ResultsImport {
+  const parsed = robustJSONParse<{ format?: string; entries?: { sheets?: SavedEvaluation[] }[] }>(text)
+  if (!parsed.success || !parsed.data) {
+    return { sheets: [], errors: [parsed.error || 'File is not valid JSON'] }
+  }
+  if (parsed.data.format !== RESULTS_FORMAT || !Array.isArray(parsed.data.entries)) {
+    return { sheets: [], errors: ['File is not a leaderboard JSON export'] }
+  }
+
+  const sheets: SavedEvaluation[] = []
+  const errors: string[] = []
+  for (const entry of parsed.data.entries) {
+    for (const sheet of entry.sheets || []) {
+      const report = validateSavedEvaluation(sheet)
+      if (!report.valid) {
+        const issue = report.issues.find(i => i.action === 'rejected')
+        errors.push(`Skipped a sheet for "${sheet?.result?.game_name || 'unknown game'}": ${issue.path} - ${issue.message.toLowerCase()}`)
+        continue
+      }
+      sheets.push(report.value)
+    }
+  }
+  return { sheets, errors }
+}
@@ -0,0 +1,126 @@
+/**
+ * Leaderboard moderation
+ * Delete, archive and disqualify actions on aggregated entries, each recorded
+ * in an audit log entry that carries enough state to undo it
+ */
+
+import type {
+  AggregatedEvaluation,
+  AuditAction,
+  AuditEntry,
+  EntryStatus,
+  SavedEvaluation
+} from '@/types'
+import { evaluationKey } from './aggregation'
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  delete: 'Deleted',
+  archive: 'Archived',
+  disqualify: 'Disqualified',
+  restore: 'Restored'
+}
+
+export interface ModerationState {
+  evaluations: SavedEvaluation[]
+  entryStatuses: Record<string, EntryStatus>
+}
+
+/**
+ * Attach each entry's archive/disqualify status
+ */
+export function withEntryStatuses(
+  entries: AggregatedEvaluation[],
+  statuses: Record<string, EntryStatus>
+): AggregatedEvaluation[] {
+  return entries.map(entry => ({ ...entry, status: statuses[entry.key] }))
+}
+
+/**
+ * Entries that take part in the ranking
+ */
+export function isRanked(entry: AggregatedEvaluation): boolean {
+  return !entry.status
+}
+
+export function isArchivedEntry(entry: AggregatedEvaluation): boolean {
+  return entry.status?.standing === 'archived'
+}
+
+export function isDisqualified(entry: AggregatedEvaluation): boolean {
+  return entry.status?.standing === 'disqualified'
+}
+
+/**
+ * Apply an action and return the new state plus its audit entry
+ */
+export function moderateEntry(
+  state: ModerationState,
+  entry: AggregatedEvaluation,
+  action: AuditAction,
+  options: { reason?: string; actor?: string } = {}
+): { state: ModerationState; audit: AuditEntry } {
+  const now = new Date().toISOString()
+  const previousStatus = state.entryStatuses[entry.key] || null
+  const { [entry.key]: _removed, ...otherStatuses } = state.entryStatuses
+
+  const audit: AuditEntry = {
+    id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: now,
+    action,
+    entryKey: entry.key,
+    gameName: entry.result.game_name,
+    teamName: entry.result.team_name,
+    actor: options.actor,
+    reason: options.reason,
+    previousStatus
+  }
+
+  if (action === 'delete') {
+    const removedSheets = state.evaluations.filter(e => evaluationKey(e) === entry.key)
+    return {
+      state: {
+        evaluations: state.evaluations.filter(e => evaluationKey(e) !== entry.key),
+        entryStatuses: otherStatuses
+      },
+      audit: { ...audit, removedSheets }
+    }
+  }
+
+  if (action === 'restore') {
+    return { state: { ...state, entryStatuses: otherStatuses }, audit }
+  }
+
+  const status: EntryStatus = {
+    standing: action === 'archive' ? 'archived' : 'disqualified',
+    reason: options.reason,
+    changedAt: now,
+    changedBy: options.actor
+  }
+  return { state: { ...state, entryStatuses: { ...otherStatuses, [entry.key]: status } }, audit }
+}
+
+/**
+ * Only the most recent live action on an entry can be undone, so undoing never
+ * skips over a later change to the same entry
+ */
+export function canUndo(log: AuditEntry[], audit: AuditEntry): boolean {
+  if (audit.undoneAt) return false
+  const later = log.slice(log.findIndex(a => a.id === audit.id) + 1)
+  return !later.some(a => a.entryKey === audit.entryKey && !a.undoneAt)
+}
+
+/**
+ * Revert an audited action: deleted sheets come back and the entry's status
+ * returns to what it was before
+ */
+export function undoModeration(state: ModerationState, audit: AuditEntry): ModerationState {
+  const { [audit.entryKey]: _current, ...otherStatuses } = state.entryStatuses
+  const entryStatuses = audit.previousStatus
+    ? { ...otherStatuses, [audit.entryKey]: audit.previousStatus }
+    : otherStatuses
+
+  if (audit.action !== 'delete') return { ...state, entryStatuses }
+
+  const restored = (audit.removedSheets || []).filter(sheet => !state.evaluations.some(e => e.id === sheet.id))
+  return { evaluations: [...state.evaluations, ...restored], entryStatuses }
+}
@@ -0,0 +1,189 @@
+/**
+ * Judge normalization
+ * Rescales each judge's raw criterion scores against their own scoring habits
+ * before sheets are aggregated, and reports each judge's bias
+ */
+
+import type {
+  CriterionDefinition,
+  EvaluationResult,
+  NormalizationMethod,
+  SavedEvaluation
+} from '@/types'
+import { rescoreResult } from './scoring'
+
+export const NORMALIZATION_LABELS: Record<NormalizationMethod, string> = {
+  none: 'None (raw scores)',
+  z_score: 'Z-score per judge',
+  min_max: 'Min-max per judge',
+  rank: 'Rank-based per judge'
+}
+
+// Judges with fewer sheets keep their raw scores; one sheet shows no scoring habit
+export const MIN_NORMALIZED_SHEETS = 2
+
+export interface JudgeBias {
+  judgeKey: string
+  judgeName: string
+  sheetCount: number
+  // Percentage scores across the judge's sheets
+  rawMean: number
+  rawStdDev: number
+  // How far the judge's mean sits from the whole panel's mean
+  rawOffset: number
+  normalizedMean: number
+  normalizedStdDev: number
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+// Population standard deviation
+function stdDev(values: number[]): number {
+  if (values.length === 0) return 0
+  const m = mean(values)
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)))
+}
+
+function judgeKey(sheet: SavedEvaluation): string {
+  return sheet.judgeId || sheet.judgeName || 'unassigned'
+}
+
+function groupByJudge(evaluations: SavedEvaluation[]): Map<string, SavedEvaluation[]> {
+  const groups = new Map<string, SavedEvaluation[]>()
+  for (const sheet of evaluations) {
+    const key = judgeKey(sheet)
+    groups.set(key, [...(groups.get(key) || []), sheet])
+  }
+  return groups
+}
+
+function rawScore(sheet: SavedEvaluation, criterionId: string): number | undefined {
+  return sheet.result.score_breakdown.find(item => item.criterion === criterionId)?.raw_score
+}
+
+/**
+ * Map one raw score onto the criterion scale using the judge's own scores for
+ * that criterion (`judgeValues`) and the whole panel's (`panelValues`)
+ */
+function normalizeValue(
+  value: number,
+  judgeValues: number[],
+  panelValues: number[],
+  method: NormalizationMethod,
+  criterion: CriterionDefinition
+): number {
+  const { scaleMin, scaleMax } = criterion
+  const span = scaleMax - scaleMin
+  const clamp = (v: number) => Math.min(scaleMax, Math.max(scaleMin, v))
+
+  if (method === 'z_score') {
+    // A judge who gave every game the same score says nothing about relative quality
+    const sd = stdDev(judgeValues)
+    const z = sd > 0 ? (value - mean(judgeValues)) / sd : 0
+    return clamp(mean(panelValues) + z * stdDev(panelValues))
+  }
+
+  if (method === 'min_max') {
+    // With no spread there is nothing to stretch, so the raw score stands
+    const min = Math.min(...judgeValues)
+    const max = Math.max(...judgeValues)
+    if (max === min) return value
+    return scaleMin + ((value - min) / (max - min)) * span
+  }
+
+  if (method === 'rank') {
+    // Percentile rank with tied scores sharing their average position; with no
+    // spread there is no order, so the raw score stands
+    if (judgeValues.every(v => v === value)) return value
+    const below = judgeValues.filter(v => v < value).length
+    const equal = judgeValues.filter(v => v === value).length
+    const position = (below + (equal - 1) / 2) / (judgeValues.length - 1)
+    return scaleMin + position * span
+  }
+
+  return value
+}
+
+/**
+ * Sheet id -> result with normalized raw scores; weighted totals are left for
+ * rescoreResult to recompute. Sheets of judges below MIN_NORMALIZED_SHEETS
+ * keep their raw scores
+ */
+export function normalizeSheets(
+  evaluations: SavedEvaluation[],
+  method: NormalizationMethod,
+  criteria: CriterionDefinition[]
+): Map<string, EvaluationResult> {
+  const normalized = new Map<string, Record<string, number>>()
+  const judges = Array.from(groupByJudge(evaluations).values())
+
+  for (const criterion of criteria) {
+    const panelValues = evaluations
+      .map(sheet => rawScore(sheet, criterion.id))
+      .filter((v): v is number => v !== undefined)
+
+    for (const sheets of judges) {
+      if (sheets.length < MIN_NORMALIZED_SHEETS) continue
+      const judgeValues = sheets
+        .map(sheet => rawScore(sheet, criterion.id))
+        .filter((v): v is number => v !== undefined)
+
+      for (const sheet of sheets) {
+        const value = rawScore(sheet, criterion.id)
+        if (value === undefined) continue
+        normalized.set(sheet.id, {
+          ...normalized.get(sheet.id),
+          [criterion.id]: round2(normalizeValue(value, judgeValues, panelValues, method, criterion))
+        })
+      }
+    }
+  }
+
+  return new Map(evaluations.map(sheet => {
+    const scores = normalized.get(sheet.id) || {}
+    return [sheet.id, {
+      ...sheet.result,
+      score_breakdown: sheet.result.score_breakdown.map(item =>
+        item.criterion in scores ? { ...item, raw_score: scores[item.criterion] } : item
+      )
+    }]
+  }))
+}
+
+/**
+ * Mean and spread of each judge's percentage scores, before and after
+ * normalization
+ */
+export function judgeBiasReport(
+  evaluations: SavedEvaluation[],
+  method: NormalizationMethod,
+  criteria: CriterionDefinition[]
+): JudgeBias[] {
+  const normalized = method === 'none' ? null : normalizeSheets(evaluations, method, criteria)
+  const rawPercentage = (sheet: SavedEvaluation) => rescoreResult(sheet.result, criteria).percentage_score
+  const normalizedPercentage = (sheet: SavedEvaluation) =>
+    normalized ? rescoreResult(normalized.get(sheet.id) || sheet.result, criteria).percentage_score : rawPercentage(sheet)
+
+  const panelMean = mean(evaluations.map(rawPercentage))
+
+  return Array.from(groupByJudge(evaluations).entries()).map(([key, sheets]) => {
+    const raw = sheets.map(rawPercentage)
+    const adjusted = sheets.map(normalizedPercentage)
+    return {
+      judgeKey: key,
+      judgeName: sheets[sheets.length - 1].judgeName || 'Unassigned judge',
+      sheetCount: sheets.length,
+      rawMean: round2(mean(raw)),
+      rawStdDev: round2(stdDev(raw)),
+      rawOffset: round2(mean(raw) - panelMean),
+      normalizedMean: round2(mean(adjusted)),
+      normalizedStdDev: round2(stdDev(adjusted))
+    }
+  }).sort((a, b) => a.judgeName.localeCompare(b.judgeName))
+}
@@ -0,0 +1,184 @@
+/**
+ * Minimal PDF writer
+ * Just enough of PDF 1.4 for printable reports: A4 pages, Helvetica text,
+ * lines, rectangles and polygons. Text outside WinAnsi is replaced
+ */
+
+export const PAGE_WIDTH = 595
+export const PAGE_HEIGHT = 842
+
+export type Rgb = [number, number, number]
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: Rgb
+}
+
+export interface ShapeOptions {
+  stroke?: Rgb
+  fill?: Rgb
+  lineWidth?: number
+}
+
+export interface PdfWriter {
+  addPage: () => void
+  text: (x: number, y: number, value: string, options?: TextOptions) => void
+  line: (x1: number, y1: number, x2: number, y2: number, options?: ShapeOptions) => void
+  rect: (x: number, y: number, width: number, height: number, options?: ShapeOptions) => void
+  polygon: (points: [number, number][], options?: ShapeOptions) => void
+  toBytes: () => Uint8Array<ArrayBuffer>
+}
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+// Bold glyphs run about this much wider on average
+const BOLD_FACTOR = 1.08
+
+// Unicode punctuation that WinAnsi has under another code
+const WIN_ANSI: Record<string, number> = {
+  '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '…': 0x85, '€': 0x80
+}
+
+function number(value: number): string {
+  return (Math.round(value * 100) / 100).toString()
+}
+
+function color(rgb: Rgb): string {
+  return rgb.map(c => number(c / 255)).join(' ')
+}
+
+function encodeText(value: string): string {
+  let out = ''
+  for (const char of value) {
+    const code = WIN_ANSI[char] ?? char.codePointAt(0)
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`
+    else if (code >= 32 && code < 127) out += char
+    else if (code > 127 && code < 256) out += `\\${code.toString(8).padStart(3, '0')}`
+    else out += '?'
+  }
+  return out
+}
+
+export function textWidth(value: string, size: number, bold = false): number {
+  let units = 0
+  for (const char of value) {
+    const code = char.codePointAt(0)
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1)
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`; words longer than a line are
+ * split
+ */
+export function wrapText(value: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = []
+  for (const paragraph of value.split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      line = word
+      while (textWidth(line, size, bold) > maxWidth && line.length > 1) {
+        let cut = line.length - 1
+        while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > maxWidth) cut--
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+export function createPdf(): PdfWriter {
+  const pages: string[][] = [[]]
+  const current = () => pages[pages.length - 1]
+
+  const paint = (options: ShapeOptions) => {
+    const ops: string[] = []
+    if (options.lineWidth !== undefined) ops.push(`${number(options.lineWidth)} w`)
+    if (options.stroke) ops.push(`${color(options.stroke)} RG`)
+    if (options.fill) ops.push(`${color(options.fill)} rg`)
+    const operator = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S'
+    return { ops, operator }
+  }
+
+  return {
+    addPage: () => {
+      pages.push([])
+    },
+
+    text: (x, y, value, options = {}) => {
+      const { size = 10, bold = false, color: rgb = [0, 0, 0] } = options
+      current().push(`BT /${bold ? 'F2' : 'F1'} ${number(size)} Tf ${color(rgb)} rg ${number(x)} ${number(y)} Td (${encodeText(value)}) Tj ET`)
+    },
+
+    line: (x1, y1, x2, y2, options = {}) => {
+      const { ops } = paint({ stroke: [0, 0, 0], ...options, fill: undefined })
+      current().push(`q ${ops.join(' ')} ${number(x1)} ${number(y1)} m ${number(x2)} ${number(y2)} l S Q`)
+    },
+
+    rect: (x, y, width, height, options = {}) => {
+      const { ops, operator } = paint(options.fill || options.stroke ? options : { ...options, stroke: [0, 0, 0] })
+      current().push(`q ${ops.join(' ')} ${number(x)} ${number(y)} ${number(width)} ${number(height)} re ${operator} Q`)
+    },
+
+    polygon: (points, options = {}) => {
+      if (points.length < 2) return
+      const { ops, operator } = paint(options.fill || options.stroke ? options : { ...options, stroke: [0, 0, 0] })
+      const path = points.map(([x, y], i) => `${number(x)} ${number(y)} ${i === 0 ? 'm' : 'l'}`).join(' ')
+      current().push(`q ${ops.join(' ')} ${path} h ${operator} Q`)
+    },
+
+    toBytes: () => {
+      const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+      ]
+      const pageIds: number[] = []
+      for (const ops of pages) {
+        const content = ops.join('\n')
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+        const contentId = objects.length
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+        )
+        pageIds.push(objects.length)
+      }
+      objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+      // Everything above is ASCII, so string offsets are byte offsets
+      let out = '%PDF-1.4\n'
+      const offsets: number[] = []
+      objects.forEach((body, index) => {
+        offsets.push(out.length)
+        out += `${index + 1} 0 obj\n${body}\nendobj\n`
+      })
+      const xref = out.length
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+      out += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+      return new TextEncoder().encode(out)
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Public results
+ * Builds the read-only snapshot behind the public results page. Only the
+ * fields organizers chose are copied in, and team-only feedback is sealed with
+ * a secret that travels in that team's link
+ */
+
+import type {
+  CriterionDefinition,
+  Feedback,
+  FeedbackVisibility,
+  JamEvent,
+  PublicField,
+  PublicResults,
+  PublicResultsEntry,
+  PublishSettings,
+  SealedFeedback,
+  Submission
+} from '@/types'
+import type { AwardResult } from './awards'
+import { robustJSONParse } from './json-parser'
+import type { RankedEntry } from './ranking'
+
+export const RESULTS_FORMAT = 'game-jam-public-results'
+export const RESULTS_VERSION = 1
+
+export const PUBLIC_FIELD_LABELS: Record<PublicField, string> = {
+  score: 'Overall score',
+  criterion_scores: 'Per-criterion scores',
+  judge_count: 'Number of judges',
+  compliance: 'Rule compliance',
+  summary: 'Evaluation summary',
+  members: 'Team members',
+  links: 'Build and repository links'
+}
+
+export const FEEDBACK_VISIBILITY_LABELS: Record<FeedbackVisibility, string> = {
+  hidden: 'Not published',
+  team: 'Only to each team, through its link',
+  public: 'Everyone'
+}
+
+export const DEFAULT_PUBLISH_SETTINGS: PublishSettings = {
+  fields: ['score', 'summary', 'members', 'links'],
+  feedback: canSealFeedback() ? 'team' : 'hidden',
+  showAwards: true,
+  teamTokens: {}
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+}
+
+export function createTeamToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Give every listed entry a link token, keeping existing ones so links
+ * already sent out keep working; `reset` replaces them all
+ */
+export function withTeamTokens(settings: PublishSettings, entryKeys: string[], reset = false): PublishSettings {
+  const teamTokens = reset ? {} : { ...settings.teamTokens }
+  for (const key of entryKeys) {
+    if (!teamTokens[key]) teamTokens[key] = createTeamToken()
+  }
+  return { ...settings, teamTokens }
+}
+
+// Web Crypto is only available on https pages and localhost
+export function canSealFeedback(): boolean {
+  return Boolean(globalThis.crypto?.subtle)
+}
+
+async function tokenKey(token: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+export async function sealFeedback(feedback: Feedback, token: string): Promise<SealedFeedback> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await tokenKey(token),
+    new TextEncoder().encode(JSON.stringify(feedback))
+  )
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+/**
+ * The feedback sealed with `token`; null when the token doesn't open it
+ */
+export async function openFeedback(sealed: SealedFeedback, token: string): Promise<Feedback | null> {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+      await tokenKey(token),
+      fromBase64(sealed.data)
+    )
+    return JSON.parse(new TextDecoder().decode(data)) as Feedback
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The entry whose sealed feedback `token` opens. Links carry only the token,
+ * so each entry is tried in turn
+ */
+export async function findTeamFeedback(
+  results: PublicResults,
+  token: string
+): Promise<{ entry: PublicResultsEntry; feedback: Feedback } | null> {
+  for (const entry of results.entries) {
+    if (!entry.sealedFeedback) continue
+    const feedback = await openFeedback(entry.sealedFeedback, token)
+    if (feedback) return { entry, feedback }
+  }
+  return null
+}
+
+/**
+ * Snapshot of the ranked leaderboard and award winners. `ranked` should hold
+ * ranked entries only; team tokens must already exist when feedback is
+ * team-only
+ */
+export async function buildPublicResults(
+  event: JamEvent,
+  ranked: RankedEntry[],
+  awards: AwardResult[],
+  criteria: CriterionDefinition[],
+  submissions: Submission[],
+  settings: PublishSettings
+): Promise<PublicResults> {
+  const has = (field: PublicField) => settings.fields.includes(field)
+
+  const entries = await Promise.all(ranked.map(async ({ entry, rank, tied }) => {
+    const { result } = entry
+    const submission = submissions.find(s => s.id === entry.key)
+    const out: PublicResultsEntry = {
+      key: entry.key,
+      rank,
+      tied,
+      gameName: result.game_name,
+      teamName: result.team_name
+    }
+    if (has('score')) out.percentage = result.percentage_score
+    if (has('criterion_scores')) {
+      out.criterionScores = Object.fromEntries(result.score_breakdown.map(item => [item.criterion, item.raw_score]))
+    }
+    if (has('judge_count')) out.judgeCount = entry.judgeCount
+    if (has('compliance')) out.compliant = result.rule_compliance.compliant
+    if (has('summary')) out.summary = result.summary
+    if (has('members') && submission) out.members = submission.members
+    if (has('links') && submission) {
+      out.buildUrl = submission.buildUrl || undefined
+      out.repoUrl = submission.repoUrl || undefined
+    }
+    if (settings.feedback === 'public') out.feedback = result.feedback
+    const token = settings.teamTokens[entry.key]
+    if (settings.feedback === 'team' && token) out.sealedFeedback = await sealFeedback(result.feedback, token)
+    return out
+  }))
+
+  return {
+    format: RESULTS_FORMAT,
+    version: RESULTS_VERSION,
+    eventId: event.id,
+    eventName: event.settings.eventName,
+    themeDescription: event.settings.themeDescription,
+    publishedAt: new Date().toISOString(),
+    fields: settings.fields,
+    feedback: settings.feedback,
+    criteria: has('criterion_scores')
+      ? criteria.map(({ id, label, scaleMin, scaleMax }) => ({ id, label, scaleMin, scaleMax }))
+      : [],
+    entries,
+    awards: settings.showAwards
+      ? awards.filter(a => a.winner).map(({ category, winner }) => ({
+          name: category.name,
+          description: category.description,
+          gameName: winner.entry.result.game_name,
+          teamName: winner.entry.result.team_name
+        }))
+      : []
+  }
+}
+
+export function parsePublicResults(text: string): { results: PublicResults | null; error?: string } {
+  const parsed = robustJSONParse<PublicResults>(text)
+  if (!parsed.success || !parsed.data) return { results: null, error: parsed.error || 'File is not valid JSON' }
+  const data = parsed.data
+  if (data.format !== RESULTS_FORMAT) return { results: null, error: 'File is not a published results snapshot' }
+  if (typeof data.version !== 'number' || data.version > RESULTS_VERSION) {
+    return { results: null, error: `Results format version ${data.version} is newer than this app understands` }
+  }
+  if (!Array.isArray(data.entries) || !Array.isArray(data.awards) || !Array.isArray(data.fields)) {
+    return { results: null, error: 'Results snapshot is incomplete' }
+  }
+  return { results: { ...data, criteria: Array.isArray(data.criteria) ? data.criteria : [] } }
+}
+
+export function resultsFileName(results: PublicResults): string {
+  const slug = results.eventName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'event'}-results.json`
+}
+
+/**
+ * Link to the public results page. A hosted snapshot goes in the query; the
+ * team token goes after the #, so it never reaches the server hosting the page
+ */
+export function publicResultsUrl(origin: string, eventId: string, snapshotUrl?: string, token?: string): string {
+  const query = snapshotUrl?.trim() ? `?snapshot=${encodeURIComponent(snapshotUrl.trim())}` : ''
+  return `${origin}/results/${encodeURIComponent(eventId)}${query}${token ? `#team=${token}` : ''}`
+}
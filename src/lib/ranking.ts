@@ -0,0 +1,133 @@
+/**
+ * Leaderboard ranking
+ * Orders entries by percentage score, settles ties with the event's
+ * tie-breakers and numbers them with its ranking mode
+ */
+
+import type {
+  AggregatedEvaluation,
+  CriterionDefinition,
+  RankingMode,
+  RankingSettings,
+  Submission,
+  TieBreaker
+} from '@/types'
+import { criterionLabel } from './criteria'
+
+export const RANKING_MODE_LABELS: Record<RankingMode, string> = {
+  competition: 'Standard competition (1224)',
+  dense: 'Dense (1223)',
+  ordinal: 'Ordinal (1234)'
+}
+
+export const TIE_BREAKER_LABELS: Record<TieBreaker['kind'], string> = {
+  criterion: 'Higher criterion score',
+  judge_count: 'More judges',
+  submitted_at: 'Earlier submission'
+}
+
+export const DEFAULT_RANKING: RankingSettings = {
+  mode: 'competition',
+  tieBreakers: []
+}
+
+export interface RankedEntry {
+  entry: AggregatedEvaluation
+  rank: number
+  // Shares its rank with at least one other entry
+  tied: boolean
+}
+
+export function tieBreakerLabel(tieBreaker: TieBreaker, criteria: CriterionDefinition[]): string {
+  if (tieBreaker.kind === 'criterion') {
+    return `${TIE_BREAKER_LABELS.criterion}: ${criterionLabel(criteria, tieBreaker.criterionId)}`
+  }
+  return TIE_BREAKER_LABELS[tieBreaker.kind]
+}
+
+export function moveTieBreaker(tieBreakers: TieBreaker[], index: number, direction: -1 | 1): TieBreaker[] {
+  const target = index + direction
+  if (target < 0 || target >= tieBreakers.length) return tieBreakers
+  const next = [...tieBreakers]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+// Scores are compared as displayed so float noise never separates a tie
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * When the game was submitted - the linked submission, else its first sheet
+ */
+function submittedAt(entry: AggregatedEvaluation, submissions: Submission[]): number {
+  const submission = submissions.find(s => s.id === entry.key)
+  if (submission) return new Date(submission.createdAt).getTime()
+  return Math.min(...entry.sheets.map(sheet => new Date(sheet.savedAt).getTime()))
+}
+
+// Higher is better for every tie-breaker
+function tieBreakerValue(entry: AggregatedEvaluation, tieBreaker: TieBreaker, submissions: Submission[]): number {
+  switch (tieBreaker.kind) {
+    case 'criterion':
+      return entry.result.score_breakdown.find(s => s.criterion === tieBreaker.criterionId)?.weighted_score || 0
+    case 'judge_count':
+      return entry.judgeCount
+    case 'submitted_at':
+      return -submittedAt(entry, submissions)
+  }
+}
+
+/**
+ * Negative when `a` ranks ahead of `b`; 0 when they stay tied after every
+ * tie-breaker
+ */
+export function compareEntries(
+  a: AggregatedEvaluation,
+  b: AggregatedEvaluation,
+  ranking: RankingSettings,
+  submissions: Submission[]
+): number {
+  const scoreDiff = round2(b.result.percentage_score) - round2(a.result.percentage_score)
+  if (scoreDiff !== 0) return scoreDiff
+
+  for (const tieBreaker of ranking.tieBreakers) {
+    const diff = round2(tieBreakerValue(b, tieBreaker, submissions)) - round2(tieBreakerValue(a, tieBreaker, submissions))
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * Entries in ranking order with their rank numbers; entries still tied are
+ * listed by game name
+ */
+export function rankEntries(
+  entries: AggregatedEvaluation[],
+  ranking: RankingSettings,
+  submissions: Submission[]
+): RankedEntry[] {
+  const sorted = [...entries].sort((a, b) =>
+    compareEntries(a, b, ranking, submissions) || a.result.game_name.localeCompare(b.result.game_name)
+  )
+
+  const ranked: RankedEntry[] = []
+  sorted.forEach((entry, index) => {
+    const previous = ranked[index - 1]
+    const tiedWithPrevious = previous && compareEntries(previous.entry, entry, ranking, submissions) === 0
+    let rank = index + 1
+    if (ranking.mode === 'competition' && tiedWithPrevious) rank = previous.rank
+    if (ranking.mode === 'dense') rank = !previous ? 1 : tiedWithPrevious ? previous.rank : previous.rank + 1
+    ranked.push({ entry, rank, tied: false })
+  })
+
+  return ranked.map(r => ({ ...r, tied: ranked.some(other => other !== r && other.rank === r.rank) }))
+}
+
+/**
+ * Entry key -> ranked entry, for views listed in another order
+ */
+export function rankByKey(ranked: RankedEntry[]): Record<string, RankedEntry> {
+  return Object.fromEntries(ranked.map(r => [r.entry.key, r]))
+}
@@ -0,0 +1,198 @@
+/**
+ * Inter-rater reliability
+ * How far judges agree on the same games: Krippendorff's alpha per criterion,
+ * each judge's deviation from the rest of the panel, and the games judges
+ * disagree on most
+ */
+
+import type { CriterionDefinition, SavedEvaluation } from '@/types'
+import { evaluationKey } from './aggregation'
+import { rescoreResult } from './scoring'
+
+// Krippendorff's conventional cut-offs
+export const ALPHA_RELIABLE = 0.8
+export const ALPHA_TENTATIVE = 0.667
+
+export interface CriterionAgreement {
+  criterionId: string
+  label: string
+  // Null when fewer than two judges overlap on any game, or nobody varied
+  alpha: number | null
+  gamesCompared: number
+}
+
+export interface JudgeDeviation {
+  judgeKey: string
+  judgeName: string
+  sheetsCompared: number
+  // Percentage points above (+) or below (-) the other judges on the same games
+  meanDeviation: number
+  meanAbsoluteDeviation: number
+}
+
+export interface ContestedGame {
+  key: string
+  gameName: string
+  teamName: string
+  judgeCount: number
+  minPercentage: number
+  maxPercentage: number
+  // Standard deviation of the judges' percentage scores
+  spread: number
+  // Criterion with the widest range, as a share of its scale
+  criterionId?: string
+  criterionRange?: number
+}
+
+export interface ReliabilityReport {
+  overall: CriterionAgreement
+  criteria: CriterionAgreement[]
+  judges: JudgeDeviation[]
+  contested: ContestedGame[]
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+// Population standard deviation
+function stdDev(values: number[]): number {
+  if (values.length === 0) return 0
+  const m = mean(values)
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)))
+}
+
+// Sum of squared differences over all ordered pairs i != j
+function pairedSquares(values: number[]): number {
+  const sum = values.reduce((total, v) => total + v, 0)
+  const squares = values.reduce((total, v) => total + v * v, 0)
+  return 2 * (values.length * squares - sum * sum)
+}
+
+function judgeKey(sheet: SavedEvaluation): string {
+  return sheet.judgeId || sheet.id
+}
+
+// Raw score as a percentage of the criterion's scale
+function scalePercentage(sheet: SavedEvaluation, criterion: CriterionDefinition): number | undefined {
+  const item = sheet.result.score_breakdown.find(i => i.criterion === criterion.id)
+  if (!item) return undefined
+  const span = criterion.scaleMax - criterion.scaleMin
+  return span > 0 ? ((item.raw_score - criterion.scaleMin) / span) * 100 : 0
+}
+
+/**
+ * Krippendorff's alpha for interval data. Each unit holds the values the
+ * judges gave one game; units with a single value can't be paired and are
+ * dropped
+ */
+export function krippendorffAlpha(units: number[][]): number | null {
+  const pairable = units.filter(values => values.length >= 2)
+  const pooled = pairable.flat()
+  const n = pooled.length
+  if (pairable.length === 0 || n < 2) return null
+
+  const observed = pairable.reduce((total, values) => total + pairedSquares(values) / (values.length - 1), 0) / n
+  const expected = pairedSquares(pooled) / (n * (n - 1))
+  if (expected === 0) return null
+  return round2(1 - observed / expected)
+}
+
+export function alphaLabel(alpha: number | null): string {
+  if (alpha === null) return 'Not enough overlap'
+  if (alpha >= ALPHA_RELIABLE) return 'Reliable'
+  if (alpha >= ALPHA_TENTATIVE) return 'Tentative'
+  return 'Low agreement'
+}
+
+function groupByGame(evaluations: SavedEvaluation[]): Map<string, SavedEvaluation[]> {
+  const groups = new Map<string, SavedEvaluation[]>()
+  for (const sheet of evaluations) {
+    const key = evaluationKey(sheet)
+    groups.set(key, [...(groups.get(key) || []), sheet])
+  }
+  return groups
+}
+
+function agreement(
+  games: SavedEvaluation[][],
+  value: (sheet: SavedEvaluation) => number | undefined,
+  criterionId: string,
+  label: string
+): CriterionAgreement {
+  const units = games
+    .map(sheets => sheets.map(value).filter((v): v is number => v !== undefined))
+    .filter(values => values.length >= 2)
+  return { criterionId, label, alpha: krippendorffAlpha(units), gamesCompared: units.length }
+}
+
+/**
+ * Agreement statistics over the saved sheets. Only games scored by at least two
+ * judges contribute
+ */
+export function reliabilityReport(
+  evaluations: SavedEvaluation[],
+  criteria: CriterionDefinition[],
+  contestedLimit = 5
+): ReliabilityReport {
+  const games = Array.from(groupByGame(evaluations).entries())
+    .filter(([, sheets]) => new Set(sheets.map(judgeKey)).size >= 2)
+  const percentages = new Map(evaluations.map(sheet =>
+    [sheet.id, rescoreResult(sheet.result, criteria).percentage_score]
+  ))
+  const percentage = (sheet: SavedEvaluation) => percentages.get(sheet.id)
+
+  const overall = agreement(games.map(([, sheets]) => sheets), percentage, 'overall', 'Overall score')
+  const perCriterion = criteria.map(criterion =>
+    agreement(games.map(([, sheets]) => sheets), sheet => scalePercentage(sheet, criterion), criterion.id, criterion.label)
+  )
+
+  const deviations = new Map<string, { name: string; values: number[] }>()
+  for (const [, sheets] of games) {
+    for (const sheet of sheets) {
+      const others = sheets.filter(s => judgeKey(s) !== judgeKey(sheet)).map(percentage)
+      const key = judgeKey(sheet)
+      const entry = deviations.get(key) || { name: sheet.judgeName || 'Unassigned judge', values: [] }
+      entry.values.push(percentage(sheet) - mean(others))
+      deviations.set(key, entry)
+    }
+  }
+  const judges = Array.from(deviations.entries()).map(([key, { name, values }]) => ({
+    judgeKey: key,
+    judgeName: name,
+    sheetsCompared: values.length,
+    meanDeviation: round2(mean(values)),
+    meanAbsoluteDeviation: round2(mean(values.map(Math.abs)))
+  })).sort((a, b) => b.meanAbsoluteDeviation - a.meanAbsoluteDeviation)
+
+  const contested = games.map(([key, sheets]) => {
+    const values = sheets.map(percentage)
+    const widest = criteria
+      .map(criterion => {
+        const scores = sheets.map(s => scalePercentage(s, criterion)).filter((v): v is number => v !== undefined)
+        return { criterionId: criterion.id, range: scores.length >= 2 ? Math.max(...scores) - Math.min(...scores) : 0 }
+      })
+      .sort((a, b) => b.range - a.range)[0]
+    const latest = sheets[sheets.length - 1].result
+    return {
+      key,
+      gameName: latest.game_name,
+      teamName: latest.team_name,
+      judgeCount: new Set(sheets.map(judgeKey)).size,
+      minPercentage: round2(Math.min(...values)),
+      maxPercentage: round2(Math.max(...values)),
+      spread: round2(stdDev(values)),
+      criterionId: widest?.range > 0 ? widest.criterionId : undefined,
+      criterionRange: widest?.range > 0 ? round2(widest.range) : undefined
+    }
+  })
+    .filter(game => game.spread > 0)
+    .sort((a, b) => b.spread - a.spread)
+    .slice(0, contestedLimit)
+
+  return { overall, criteria: perCriterion, judges, contested }
+}
@@ -0,0 +1,110 @@
+/**
+ * Score sheet revisions
+ * Every save of a sheet is kept as a revision with its author and a field diff
+ * against the one before; the sheet itself always holds the latest revision
+ */
+
+import type {
+  CriterionDefinition,
+  EvaluationRevision,
+  Judge,
+  RevisionChange,
+  SavedEvaluation
+} from '@/types'
+import { criterionLabel } from './criteria'
+
+type RevisionContent = Pick<EvaluationRevision, 'result' | 'scores' | 'description' | 'complianceNotes'>
+
+function snapshot(
+  evaluation: SavedEvaluation,
+  revision: number,
+  author: Partial<Judge> | null,
+  rescoredBy: EvaluationRevision['rescoredBy'],
+  changes: RevisionChange[]
+): EvaluationRevision {
+  return {
+    revision,
+    savedAt: evaluation.savedAt,
+    authorId: author?.id,
+    authorName: author?.name,
+    rescoredBy,
+    result: evaluation.result,
+    scores: evaluation.scores,
+    description: evaluation.description,
+    complianceNotes: evaluation.complianceNotes,
+    changes
+  }
+}
+
+/**
+ * Revisions of a sheet, oldest first; sheets saved before revisions were
+ * tracked get a synthesized first revision
+ */
+export function revisionHistory(evaluation: SavedEvaluation): EvaluationRevision[] {
+  if (evaluation.history && evaluation.history.length > 0) return evaluation.history
+  return [snapshot(evaluation, 1, { id: evaluation.judgeId, name: evaluation.judgeName }, 'agent', [])]
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value).trim()
+}
+
+/**
+ * Fields that differ between two revisions
+ */
+export function diffRevisions(
+  before: RevisionContent,
+  after: RevisionContent,
+  criteria: CriterionDefinition[]
+): RevisionChange[] {
+  const changes: RevisionChange[] = []
+  const compare = (field: string, label: string, a: unknown, b: unknown) => {
+    const from = formatValue(a)
+    const to = formatValue(b)
+    if (from !== to) changes.push({ field, label, before: from, after: to })
+  }
+
+  const criterionIds = Array.from(new Set([
+    ...criteria.map(c => c.id),
+    ...Object.keys(before.scores || {}),
+    ...Object.keys(after.scores || {})
+  ]))
+  for (const id of criterionIds) {
+    compare(`scores.${id}`, criterionLabel(criteria, id), before.scores?.[id], after.scores?.[id])
+  }
+
+  compare('description', 'Description', before.description, after.description)
+  compare('complianceNotes', 'Compliance notes', before.complianceNotes, after.complianceNotes)
+  compare('result.percentage_score', 'Percentage', before.result.percentage_score, after.result.percentage_score)
+  compare('result.rule_compliance.compliant', 'Compliant', before.result.rule_compliance.compliant, after.result.rule_compliance.compliant)
+  compare('result.rank_recommendation', 'Recommendation', before.result.rank_recommendation, after.result.rank_recommendation)
+  compare('result.summary', 'Summary', before.result.summary, after.result.summary)
+
+  return changes
+}
+
+/**
+ * Save `next` as a new revision of `previous` (or as the first revision of a
+ * new sheet), keeping the previous sheet's id
+ */
+export function recordRevision(
+  previous: SavedEvaluation | undefined,
+  next: SavedEvaluation,
+  author: Judge | null,
+  rescoredBy: EvaluationRevision['rescoredBy'],
+  criteria: CriterionDefinition[]
+): SavedEvaluation {
+  const history = previous ? revisionHistory(previous) : []
+  const last = history[history.length - 1]
+  const revision = (last?.revision || 0) + 1
+  const changes = last ? diffRevisions(last, next, criteria) : []
+
+  return {
+    ...next,
+    id: previous?.id || next.id,
+    revision,
+    history: [...history, snapshot(next, revision, author, rescoredBy, changes)]
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Agent response schema validation
+ * Checks agent results against the type notation in response_schemas/*.json
+ * ("string" | "number" | "boolean", [item], { key: schema }), coercing safe
+ * mismatches and rejecting unsafe ones
+ */
+
+import gameEvaluationSchema from '../../response_schemas/game_evaluation_agent_response.json'
+import type { EvaluationResult, SavedEvaluation, ValidationIssue } from '@/types'
+
+export type SchemaNode = string | SchemaNode[] | { [key: string]: SchemaNode }
+
+export interface ValidationReport<T> {
+  valid: boolean
+  value: T | null
+  issues: ValidationIssue[]
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (value === undefined) return 'missing'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`
+  if (typeof value === 'object') return 'object'
+  return `${typeof value} ${String(value)}`
+}
+
+function expectedName(schema: SchemaNode): string {
+  if (typeof schema === 'string') return schema
+  if (Array.isArray(schema)) return `array of ${expectedName(schema[0])}`
+  return 'object'
+}
+
+/**
+ * Convert values that can be reinterpreted without guessing
+ */
+function coercePrimitive(value: unknown, type: string): { ok: boolean; value?: unknown } {
+  if (type === 'number' && typeof value === 'string') {
+    const trimmed = value.trim().replace(/%$/, '')
+    if (trimmed !== '' && isFinite(Number(trimmed))) return { ok: true, value: Number(trimmed) }
+  }
+  if (type === 'boolean' && typeof value === 'string') {
+    const lowered = value.trim().toLowerCase()
+    if (lowered === 'true') return { ok: true, value: true }
+    if (lowered === 'false') return { ok: true, value: false }
+  }
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return { ok: true, value: String(value) }
+  }
+  return { ok: false }
+}
+
+function validateNode(value: unknown, schema: SchemaNode, path: string, issues: ValidationIssue[]): unknown {
+  const expected = expectedName(schema)
+
+  if (value === undefined || value === null) {
+    issues.push({ path, expected, received: describe(value), action: 'rejected', message: 'Required field is missing' })
+    return value
+  }
+
+  if (typeof schema === 'string') {
+    const matches = schema === 'number'
+      ? typeof value === 'number' && isFinite(value)
+      : typeof value === schema
+    if (matches) return value
+
+    const coerced = coercePrimitive(value, schema)
+    if (coerced.ok) {
+      issues.push({ path, expected, received: describe(value), action: 'coerced', message: `Converted to ${schema}` })
+      return coerced.value
+    }
+    issues.push({ path, expected, received: describe(value), action: 'rejected', message: `Expected ${schema}` })
+    return value
+  }
+
+  if (Array.isArray(schema)) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected, received: describe(value), action: 'rejected', message: 'Expected a list' })
+      return value
+    }
+    return value.map((item, index) => validateNode(item, schema[0], `${path}[${index}]`, issues))
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path, expected, received: describe(value), action: 'rejected', message: 'Expected an object' })
+    return value
+  }
+
+  const source = value as Record<string, unknown>
+  const out: Record<string, unknown> = { ...source }
+  for (const [key, child] of Object.entries(schema)) {
+    out[key] = validateNode(source[key], child, path ? `${path}.${key}` : key, issues)
+  }
+  return out
+}
+
+/**
+ * Validate a value against a schema node from a response_schemas file
+ */
+export function validateAgainstSchema<T>(value: unknown, schema: SchemaNode, rootPath = ''): ValidationReport<T> {
+  const issues: ValidationIssue[] = []
+  const coerced = validateNode(value, schema, rootPath, issues)
+  const valid = !issues.some(issue => issue.action === 'rejected')
+  return { valid, value: valid ? (coerced as T) : null, issues }
+}
+
+/**
+ * Validate the `result` block returned by the Game Evaluation Agent
+ */
+export function validateEvaluationResult(result: unknown): ValidationReport<EvaluationResult> {
+  return validateAgainstSchema<EvaluationResult>(
+    result,
+    gameEvaluationSchema.response_schema.result as SchemaNode,
+    'result'
+  )
+}
+
+/**
+ * Validate a score sheet read back from a file: its id and save time plus the
+ * agent's result and metadata blocks
+ */
+export function validateSavedEvaluation(sheet: unknown): ValidationReport<SavedEvaluation> {
+  const { result, metadata } = gameEvaluationSchema.response_schema
+  return validateAgainstSchema<SavedEvaluation>(sheet, {
+    id: 'string',
+    savedAt: 'string',
+    result: result as SchemaNode,
+    metadata: metadata as SchemaNode
+  })
+}
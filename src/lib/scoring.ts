@@ -0,0 +1,143 @@
+/**
+ * Deterministic local scoring
+ * Computes the authoritative numbers from CriteriaScores x criterion weights and
+ * cross-checks the arithmetic the evaluation agent returned
+ */
+
+import type {
+  CriteriaScores,
+  CriterionDefinition,
+  EvaluationResult,
+  ScoreBreakdownItem,
+  ScoreDiscrepancy
+} from '@/types'
+import { criterionScaleMax } from './criteria'
+
+// Differences below these are rounding, not arithmetic errors
+const POINTS_TOLERANCE = 0.01
+const PERCENT_TOLERANCE = 0.05
+
+export interface LocalScore {
+  weighted_score: number
+  max_possible_score: number
+  percentage_score: number
+  score_breakdown: ScoreBreakdownItem[]
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+type ScoreRow = Pick<ScoreBreakdownItem, 'criterion' | 'raw_score' | 'weight'> & { scaleMax: number }
+
+/**
+ * Score from breakdown rows: weighted = raw x weight, max = sum of scale max x weight
+ */
+function scoreRows(rows: ScoreRow[]): LocalScore {
+  const score_breakdown = rows.map(row => ({
+    criterion: row.criterion,
+    raw_score: row.raw_score,
+    weight: row.weight,
+    weighted_score: round2(row.raw_score * row.weight)
+  }))
+
+  const weighted_score = round2(score_breakdown.reduce((sum, row) => sum + row.weighted_score, 0))
+  const max_possible_score = rows.reduce((sum, row) => sum + row.scaleMax * row.weight, 0)
+  const percentage_score = max_possible_score > 0
+    ? round2((weighted_score / max_possible_score) * 100)
+    : 0
+
+  return { weighted_score, max_possible_score, percentage_score, score_breakdown }
+}
+
+/**
+ * Authoritative score for the values a judge entered
+ */
+export function computeLocalScore(scores: CriteriaScores, criteria: CriterionDefinition[]): LocalScore {
+  return scoreRows(
+    criteria.map(c => ({
+      criterion: c.id,
+      raw_score: Number(scores[c.id]) || 0,
+      weight: Number(c.weight) || 0,
+      scaleMax: c.scaleMax
+    }))
+  )
+}
+
+/**
+ * Compare the agent's numbers with the local computation
+ */
+export function findScoreDiscrepancies(agent: EvaluationResult, local: LocalScore): ScoreDiscrepancy[] {
+  const discrepancies: ScoreDiscrepancy[] = []
+  const differs = (a: unknown, b: number, tolerance: number) =>
+    typeof a !== 'number' || !isFinite(a) || Math.abs(a - b) > tolerance
+
+  for (const row of local.score_breakdown) {
+    const agentRow = (agent.score_breakdown || []).find(item => item.criterion === row.criterion)
+    if (!agentRow) {
+      discrepancies.push({ field: 'missing_criterion', criterion: row.criterion, agentValue: null, localValue: row.weighted_score })
+      continue
+    }
+    if (differs(agentRow.raw_score, row.raw_score, POINTS_TOLERANCE)) {
+      discrepancies.push({ field: 'raw_score', criterion: row.criterion, agentValue: agentRow.raw_score, localValue: row.raw_score })
+    }
+    if (differs(agentRow.weight, row.weight, POINTS_TOLERANCE)) {
+      discrepancies.push({ field: 'weight', criterion: row.criterion, agentValue: agentRow.weight, localValue: row.weight })
+    }
+    if (differs(agentRow.weighted_score, row.weighted_score, POINTS_TOLERANCE)) {
+      discrepancies.push({ field: 'weighted_score', criterion: row.criterion, agentValue: agentRow.weighted_score, localValue: row.weighted_score })
+    }
+  }
+
+  if (differs(agent.weighted_score, local.weighted_score, POINTS_TOLERANCE)) {
+    discrepancies.push({ field: 'total_weighted_score', agentValue: agent.weighted_score, localValue: local.weighted_score })
+  }
+  if (differs(agent.max_possible_score, local.max_possible_score, POINTS_TOLERANCE)) {
+    discrepancies.push({ field: 'max_possible_score', agentValue: agent.max_possible_score, localValue: local.max_possible_score })
+  }
+  if (differs(agent.percentage_score, local.percentage_score, PERCENT_TOLERANCE)) {
+    discrepancies.push({ field: 'percentage_score', agentValue: agent.percentage_score, localValue: local.percentage_score })
+  }
+
+  return discrepancies
+}
+
+/**
+ * Replace the agent's numbers with the local ones; the agent keeps only the
+ * qualitative fields (compliance, feedback, recommendation, summary)
+ */
+export function applyLocalScore(
+  agent: EvaluationResult,
+  scores: CriteriaScores,
+  criteria: CriterionDefinition[]
+): { result: EvaluationResult; discrepancies: ScoreDiscrepancy[] } {
+  const local = computeLocalScore(scores, criteria)
+  return {
+    result: { ...agent, ...local },
+    discrepancies: findScoreDiscrepancies(agent, local)
+  }
+}
+
+/**
+ * Recompute a saved result from its own breakdown rows - used for sheets saved
+ * before local scoring, where only the agent's numbers were stored
+ */
+export function rescoreResult(result: EvaluationResult, criteria: CriterionDefinition[]): EvaluationResult {
+  return {
+    ...result,
+    ...scoreRows(result.score_breakdown.map(row => ({
+      ...row,
+      scaleMax: criterionScaleMax(criteria, row.criterion)
+    })))
+  }
+}
+
+export const DISCREPANCY_LABELS: Record<ScoreDiscrepancy['field'], string> = {
+  raw_score: 'Raw score',
+  weight: 'Weight',
+  weighted_score: 'Weighted score',
+  missing_criterion: 'Missing criterion',
+  total_weighted_score: 'Total weighted score',
+  max_possible_score: 'Max possible score',
+  percentage_score: 'Percentage'
+}
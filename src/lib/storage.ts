@@ -0,0 +1,295 @@
+/**
+ * Versioned persistence
+ * Typed records in IndexedDB with forward data migrations, change
+ * subscriptions (this tab and other tabs) and an explicit quota error path
+ */
+
+import { criteriaFromLegacyWeights } from './criteria'
+import { createConflict } from './conflicts'
+import { createEvent, scopedKey, DEFAULT_EVENT_SETTINGS, EVENT_SCOPED_KEYS, type EventScopedKey } from './events'
+import type { CriteriaWeights, EventRecords, EventSettings, GlobalRecords, JamEvent, Judge } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'game-jam-judging'
+// Object store layout; data shape changes go through MIGRATIONS instead
+const DB_VERSION = 1
+const RECORDS_STORE = 'records'
+const META_STORE = 'meta'
+const SCHEMA_VERSION_KEY = 'schemaVersion'
+const CHANNEL_NAME = 'game-jam-judging-storage'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StorageWriteResult {
+  success: boolean
+  error?: string
+  /** The browser refused the write because its storage quota is used up */
+  quotaExceeded?: boolean
+}
+
+export interface StorageChange {
+  key: string
+  /** Written by another tab */
+  external: boolean
+}
+
+type RecordMap = Map<string, unknown>
+
+// Judges saved before conflicts were declarations only listed team names
+type LegacyJudge = Judge & { conflictTeams?: string[] }
+
+interface Migration {
+  version: number
+  description: string
+  migrate: (records: RecordMap) => void
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+// Keys this app wrote to localStorage before IndexedDB
+const LEGACY_KEYS: string[] = ['events', 'activeEventId', 'eventSettings', 'criteriaWeights', ...EVENT_SCOPED_KEYS]
+
+function readLegacyKey(key: string): unknown {
+  try {
+    const item = localStorage.getItem(key)
+    return item ? JSON.parse(item) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Forward-only; each runs once, in order, on data older than its version
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Import data saved in localStorage',
+    migrate: (records) => {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        if (!key || (!LEGACY_KEYS.includes(key) && !key.startsWith('event:'))) continue
+        const value = readLegacyKey(key)
+        if (value !== null) records.set(key, value)
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Move data saved before events existed into a first event',
+    migrate: (records) => {
+      const events = records.get('events') as JamEvent[] | undefined
+      if (Array.isArray(events) && events.length > 0) return
+
+      const event = createEvent((records.get('eventSettings') as EventSettings) || DEFAULT_EVENT_SETTINGS)
+      for (const key of EVENT_SCOPED_KEYS) {
+        if (!records.has(key)) continue
+        records.set(scopedKey(event.id, key), records.get(key))
+        records.delete(key)
+      }
+
+      // Jams saved before criteria were configurable only stored weights
+      const legacyWeights = records.get('criteriaWeights') as CriteriaWeights | undefined
+      if (legacyWeights && !records.has(scopedKey(event.id, 'criteria'))) {
+        records.set(scopedKey(event.id, 'criteria'), criteriaFromLegacyWeights(legacyWeights))
+      }
+      records.delete('criteriaWeights')
+      records.delete('eventSettings')
+
+      records.set('events', [event])
+      records.set('activeEventId', event.id)
+    }
+  },
+  {
+    version: 3,
+    description: 'Turn judges\' conflicted team lists into conflict-of-interest declarations',
+    migrate: (records) => {
+      records.forEach((value, key) => {
+        if (!key.startsWith('event:') || !key.endsWith(':judges') || !Array.isArray(value)) return
+        records.set(key, (value as LegacyJudge[]).map(({ conflictTeams, ...judge }) => ({
+          ...judge,
+          conflicts: [
+            ...(judge.conflicts || []),
+            ...(conflictTeams || []).map(team => createConflict('team', team))
+          ]
+        })))
+      })
+    }
+  }
+]
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// =============================================================================
+// IndexedDB plumbing
+// =============================================================================
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted'))
+  })
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22)
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'))
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(RECORDS_STORE)) db.createObjectStore(RECORDS_STORE)
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+  }
+  return requestResult(request)
+}
+
+async function runMigrations(db: IDBDatabase): Promise<void> {
+  const metaTx = db.transaction(META_STORE, 'readonly')
+  const current = ((await requestResult(metaTx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY))) as number) || 0
+
+  if (current > STORAGE_SCHEMA_VERSION) {
+    throw new Error(`Saved data uses schema version ${current}, but this app only understands up to ${STORAGE_SCHEMA_VERSION}. Update the app before continuing.`)
+  }
+  const pending = MIGRATIONS.filter(m => m.version > current)
+  if (pending.length === 0) return
+
+  const readTx = db.transaction(RECORDS_STORE, 'readonly')
+  const store = readTx.objectStore(RECORDS_STORE)
+  const [keys, values] = await Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll())])
+  const records: RecordMap = new Map(keys.map((key, i) => [String(key), values[i]]))
+
+  for (const migration of pending) {
+    migration.migrate(records)
+  }
+
+  // Rewrite everything in one transaction so a failed migration leaves the old data intact
+  const writeTx = db.transaction([RECORDS_STORE, META_STORE], 'readwrite')
+  const recordStore = writeTx.objectStore(RECORDS_STORE)
+  recordStore.clear()
+  records.forEach((value, key) => recordStore.put(value, key))
+  writeTx.objectStore(META_STORE).put(STORAGE_SCHEMA_VERSION, SCHEMA_VERSION_KEY)
+  await transactionDone(writeTx)
+}
+
+let storagePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Open the database and bring its data up to STORAGE_SCHEMA_VERSION; safe to
+ * call repeatedly
+ */
+export function openStorage(): Promise<IDBDatabase> {
+  if (!storagePromise) {
+    storagePromise = openDatabase().then(async (db) => {
+      await runMigrations(db)
+      return db
+    })
+    // Let a later call retry after a failure
+    storagePromise.catch(() => {
+      storagePromise = null
+    })
+  }
+  return storagePromise
+}
+
+// =============================================================================
+// Change subscriptions
+// =============================================================================
+
+const listeners = new Set<(change: StorageChange) => void>()
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+if (channel) {
+  channel.onmessage = (message: MessageEvent<{ key: string }>) => {
+    listeners.forEach(listener => listener({ key: message.data.key, external: true }))
+  }
+}
+
+function notify(key: string) {
+  listeners.forEach(listener => listener({ key, external: false }))
+  channel?.postMessage({ key })
+}
+
+/**
+ * Called after every successful write; returns an unsubscribe function
+ */
+export function subscribe(listener: (change: StorageChange) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// =============================================================================
+// Reads and writes
+// =============================================================================
+
+async function getRecord<T>(key: string, fallback: T): Promise<T> {
+  const db = await openStorage()
+  const tx = db.transaction(RECORDS_STORE, 'readonly')
+  const value = await requestResult(tx.objectStore(RECORDS_STORE).get(key))
+  return value === undefined ? fallback : (value as T)
+}
+
+async function putRecord(key: string, value: unknown): Promise<StorageWriteResult> {
+  try {
+    const db = await openStorage()
+    const tx = db.transaction(RECORDS_STORE, 'readwrite')
+    tx.objectStore(RECORDS_STORE).put(value, key)
+    await transactionDone(tx)
+  } catch (error) {
+    if (isQuotaError(error)) {
+      return {
+        success: false,
+        quotaExceeded: true,
+        error: 'Browser storage is full, so the latest change was not saved. Free up space for this site and try again.'
+      }
+    }
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+  notify(key)
+  return { success: true }
+}
+
+export function readRecord<K extends keyof GlobalRecords>(key: K, fallback: GlobalRecords[K]): Promise<GlobalRecords[K]> {
+  return getRecord(key, fallback)
+}
+
+export function writeRecord<K extends keyof GlobalRecords>(key: K, value: GlobalRecords[K]): Promise<StorageWriteResult> {
+  return putRecord(key, value)
+}
+
+export function readEventRecord<K extends EventScopedKey>(
+  eventId: string,
+  key: K,
+  fallback: EventRecords[K]
+): Promise<EventRecords[K]> {
+  return getRecord(scopedKey(eventId, key), fallback)
+}
+
+export function writeEventRecord<K extends EventScopedKey>(
+  eventId: string,
+  key: K,
+  value: EventRecords[K]
+): Promise<StorageWriteResult> {
+  return putRecord(scopedKey(eventId, key), value)
+}
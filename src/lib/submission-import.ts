@@ -0,0 +1,246 @@
+/**
+ * Bulk submission import
+ * Parses CSV / JSON jam exports (itch.io style) into submission drafts
+ */
+
+import { robustJSONParse } from './json-parser'
+import { findDuplicateSubmission, splitList, submissionKey, type SubmissionDraft } from './submissions'
+import type { Submission } from '@/types'
+
+export interface ImportTable {
+  columns: string[]
+  rows: Record<string, string>[]
+}
+
+export type ImportField = keyof SubmissionDraft
+
+/**
+ * Submission field -> source column (empty string = not imported)
+ */
+export type ColumnMapping = Record<ImportField, string>
+
+export type ImportRowStatus = 'new' | 'duplicate_existing' | 'duplicate_in_file' | 'invalid'
+
+export interface ImportPreviewRow {
+  index: number
+  draft: SubmissionDraft
+  status: ImportRowStatus
+  message?: string
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  gameName: 'Game Name',
+  teamName: 'Team Name',
+  members: 'Members',
+  description: 'Description',
+  buildUrl: 'Build URL',
+  repoUrl: 'Repository URL',
+  tags: 'Tags'
+}
+
+// Column names commonly found in jam exports, compared case-insensitively
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  gameName: ['gamename', 'game', 'title', 'game.title', 'name', 'game_name'],
+  teamName: ['teamname', 'team', 'team_name', 'user.name', 'game.user.name', 'author', 'creator'],
+  members: ['members', 'contributors', 'team_members', 'authors'],
+  description: ['description', 'short_text', 'game.short_text', 'summary', 'pitch'],
+  buildUrl: ['buildurl', 'build_url', 'url', 'game.url', 'link', 'play_url'],
+  repoUrl: ['repourl', 'repo_url', 'repo', 'repository', 'source', 'github'],
+  tags: ['tags', 'genre', 'categories', 'platforms']
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(text: string): ImportTable {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter(r => r.some(v => v.trim() !== ''))
+  if (nonEmpty.length === 0) return { columns: [], rows: [] }
+
+  const columns = nonEmpty[0].map(c => c.trim())
+  const rows = nonEmpty.slice(1).map(values => {
+    const row: Record<string, string> = {}
+    columns.forEach((column, i) => {
+      row[column] = (values[i] || '').trim()
+    })
+    return row
+  })
+
+  return { columns, rows }
+}
+
+/**
+ * Flatten nested objects into dot-separated keys; arrays become comma lists
+ */
+function flattenRecord(value: Record<string, unknown>, prefix = '', out: Record<string, string> = {}): Record<string, string> {
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (Array.isArray(item)) {
+      out[path] = item
+        .map(v => (v && typeof v === 'object' ? (v as Record<string, unknown>).name ?? JSON.stringify(v) : v))
+        .join(', ')
+    } else if (item && typeof item === 'object') {
+      flattenRecord(item as Record<string, unknown>, path, out)
+    } else if (item !== null && item !== undefined) {
+      out[path] = String(item)
+    }
+  }
+  return out
+}
+
+/**
+ * Find the list of entries in a JSON export - a bare array or the first array property
+ */
+function findRecordArray(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) return data
+  if (data && typeof data === 'object') {
+    for (const value of Object.values(data as Record<string, unknown>)) {
+      if (Array.isArray(value) && value.some(v => v && typeof v === 'object')) return value
+    }
+  }
+  return null
+}
+
+/**
+ * Parse JSON text using the robust parser so exports with trailing commas or
+ * surrounding text still load
+ */
+export function parseJsonRecords(text: string): ImportTable {
+  const parsed = robustJSONParse<unknown>(text)
+  if (!parsed.success) {
+    throw new Error(parsed.error || 'Could not parse JSON')
+  }
+
+  const records = findRecordArray(parsed.data)
+  if (!records) {
+    throw new Error('No list of entries found in JSON')
+  }
+
+  const rows = records
+    .filter((r): r is Record<string, unknown> => Boolean(r) && typeof r === 'object' && !Array.isArray(r))
+    .map(r => flattenRecord(r))
+
+  const columns: string[] = []
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key)
+    }
+  }
+
+  return { columns, rows }
+}
+
+/**
+ * Parse an export, picking the format from the file name or content
+ */
+export function parseImportFile(fileName: string, text: string): ImportTable {
+  const trimmed = text.trim()
+  const looksJson = /\.json$/i.test(fileName) || trimmed.startsWith('[') || trimmed.startsWith('{')
+  return looksJson ? parseJsonRecords(text) : parseCsv(text)
+}
+
+/**
+ * Guess which column feeds each submission field
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping
+  const used = new Set<string>()
+
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    const match = FIELD_ALIASES[field]
+      .map(alias => columns.find(c => !used.has(c) && c.toLowerCase().replace(/\s+/g, '_') === alias))
+      .find(Boolean)
+    mapping[field] = match || ''
+    if (match) used.add(match)
+  }
+
+  return mapping
+}
+
+function rowToDraft(row: Record<string, string>, mapping: ColumnMapping): SubmissionDraft {
+  const read = (field: ImportField) => (mapping[field] ? row[mapping[field]] || '' : '').trim()
+
+  return {
+    gameName: read('gameName'),
+    teamName: read('teamName'),
+    members: splitList(read('members')),
+    description: read('description'),
+    buildUrl: read('buildUrl'),
+    repoUrl: read('repoUrl'),
+    tags: splitList(read('tags'))
+  }
+}
+
+/**
+ * Map rows to drafts and flag invalid rows and duplicates against the registry
+ * and earlier rows of the same file
+ */
+export function buildImportPreview(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existing: Submission[]
+): ImportPreviewRow[] {
+  const seen = new Set<string>()
+
+  return table.rows.map((row, index) => {
+    const draft = rowToDraft(row, mapping)
+
+    if (!draft.gameName || !draft.teamName) {
+      return { index, draft, status: 'invalid', message: 'Missing game or team name' }
+    }
+
+    const duplicate = findDuplicateSubmission(existing, draft)
+    if (duplicate) {
+      return { index, draft, status: 'duplicate_existing', message: `Already registered as "${duplicate.gameName}"` }
+    }
+
+    const key = submissionKey(draft)
+    if (seen.has(key)) {
+      return { index, draft, status: 'duplicate_in_file', message: 'Repeated earlier in this file' }
+    }
+    seen.add(key)
+
+    return { index, draft, status: 'new' }
+  })
+}
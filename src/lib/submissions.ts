@@ -0,0 +1,92 @@
+/**
+ * Submission registry helpers
+ * Submissions own the game/team names; evaluations link to them by id
+ */
+
+import type { SavedEvaluation, Submission } from '@/types'
+
+export type SubmissionDraft = Omit<Submission, 'id' | 'createdAt'>
+
+export const EMPTY_SUBMISSION_DRAFT: SubmissionDraft = {
+  gameName: '',
+  teamName: '',
+  members: [],
+  description: '',
+  buildUrl: '',
+  repoUrl: '',
+  tags: []
+}
+
+/**
+ * Only http(s) URLs become links; anything else (e.g. `javascript:` from an
+ * imported file) is shown as text
+ */
+export function isWebUrl(value: string | undefined): boolean {
+  if (!value) return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Split a comma-separated field (members, tags) into trimmed values
+ */
+export function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(v => v.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Normalized game/team identity used to spot duplicate submissions
+ */
+export function submissionKey(submission: Pick<Submission, 'gameName' | 'teamName'>): string {
+  const normalize = (value: string) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ')
+  return `${normalize(submission.gameName)}::${normalize(submission.teamName)}`
+}
+
+/**
+ * Create a registry entry from a draft
+ */
+export function createSubmission(draft: SubmissionDraft): Submission {
+  return {
+    ...draft,
+    id: `sub-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    gameName: draft.gameName.trim(),
+    teamName: draft.teamName.trim(),
+    description: draft.description.trim(),
+    buildUrl: draft.buildUrl.trim(),
+    repoUrl: draft.repoUrl.trim(),
+    createdAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Find an existing submission with the same game and team name
+ */
+export function findDuplicateSubmission(
+  submissions: Submission[],
+  candidate: Pick<Submission, 'gameName' | 'teamName'>,
+  ignoreId?: string
+): Submission | undefined {
+  const key = submissionKey(candidate)
+  return submissions.find(s => s.id !== ignoreId && submissionKey(s) === key)
+}
+
+/**
+ * Sheets showing their linked submission's current names, so a rename reaches
+ * every view; sheets whose submission was removed keep their saved names
+ */
+export function withSubmissionNames(evaluations: SavedEvaluation[], submissions: Submission[]): SavedEvaluation[] {
+  return evaluations.map(evaluation => {
+    const submission = evaluation.submissionId && submissions.find(s => s.id === evaluation.submissionId)
+    if (!submission) return evaluation
+    const { result } = evaluation
+    if (result.game_name === submission.gameName && result.team_name === submission.teamName) return evaluation
+    return { ...evaluation, result: { ...result, game_name: submission.gameName, team_name: submission.teamName } }
+  })
+}
@@ -0,0 +1,205 @@
+/**
+ * Team feedback reports
+ * Lays out one printable PDF per evaluation result - event header, score
+ * table, criterion radar, compliance, feedback and summary - and bundles them
+ * into a zip for bulk export
+ */
+
+import type { CriterionDefinition, EvaluationResult, EventSettings, Feedback } from '@/types'
+import { criterionLabel, criterionScaleMax } from './criteria'
+import { FEEDBACK_SECTION_LABELS } from './comparison'
+import { createPdf, textWidth, wrapText, PAGE_HEIGHT, PAGE_WIDTH, type PdfWriter, type Rgb } from './pdf'
+import { createZip } from './zip'
+
+export interface TeamReport {
+  result: EvaluationResult
+  // Shown under the score when set, e.g. "2nd of 14"
+  placement?: string
+  judgeCount?: number
+}
+
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const RADAR_RADIUS = 90
+
+const BLACK: Rgb = [17, 24, 39]
+const GRAY: Rgb = [107, 114, 128]
+const LIGHT: Rgb = [229, 231, 235]
+const PURPLE: Rgb = [147, 51, 234]
+const PURPLE_TINT: Rgb = [233, 213, 255]
+const GREEN: Rgb = [22, 163, 74]
+const RED: Rgb = [220, 38, 38]
+
+export function teamReportFileName(result: EvaluationResult): string {
+  const slug = `${result.game_name}-${result.team_name}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'team'}-feedback.pdf`
+}
+
+/**
+ * Writes top-down, starting a new page whenever the next block won't fit
+ */
+function layout(pdf: PdfWriter) {
+  let y = PAGE_HEIGHT - MARGIN
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) {
+      pdf.addPage()
+      y = PAGE_HEIGHT - MARGIN
+    }
+  }
+
+  const paragraph = (text: string, size = 10, color: Rgb = BLACK, indent = 0, bold = false) => {
+    const leading = size * 1.4
+    for (const line of wrapText(text || '', size, CONTENT_WIDTH - indent, bold)) {
+      ensure(leading)
+      y -= leading
+      pdf.text(MARGIN + indent, y, line, { size, color, bold })
+    }
+  }
+
+  const heading = (text: string) => {
+    ensure(40)
+    y -= 18
+    pdf.text(MARGIN, y - 12, text, { size: 13, bold: true, color: PURPLE })
+    y -= 18
+    pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, { stroke: LIGHT, lineWidth: 1 })
+    y -= 4
+  }
+
+  const gap = (height: number) => {
+    y -= height
+  }
+
+  const reserve = (height: number) => {
+    ensure(height)
+    const top = y
+    y -= height
+    return top
+  }
+
+  return { paragraph, heading, gap, reserve }
+}
+
+function drawRadar(pdf: PdfWriter, cx: number, cy: number, result: EvaluationResult, criteria: CriterionDefinition[]) {
+  const items = result.score_breakdown
+  const angle = (index: number) => Math.PI / 2 - (2 * Math.PI * index) / items.length
+  const point = (index: number, share: number): [number, number] => [
+    cx + Math.cos(angle(index)) * RADAR_RADIUS * share,
+    cy + Math.sin(angle(index)) * RADAR_RADIUS * share
+  ]
+
+  for (const ring of [0.25, 0.5, 0.75, 1]) {
+    pdf.polygon(items.map((_, i) => point(i, ring)), { stroke: LIGHT, lineWidth: 0.75 })
+  }
+  items.forEach((item, i) => {
+    const [x, y] = point(i, 1)
+    pdf.line(cx, cy, x, y, { stroke: LIGHT, lineWidth: 0.75 })
+    const [lx, ly] = point(i, 1.15)
+    const label = criterionLabel(criteria, item.criterion)
+    const width = textWidth(label, 8)
+    // Labels left of center end at the axis tip, right ones start there
+    const x0 = lx < cx - 5 ? lx - width : lx > cx + 5 ? lx : lx - width / 2
+    pdf.text(x0, ly - 3, label, { size: 8, color: GRAY })
+  })
+
+  const shares = items.map(item => {
+    const criterion = criteria.find(c => c.id === item.criterion)
+    const min = criterion?.scaleMin ?? 0
+    const max = criterion?.scaleMax ?? criterionScaleMax(criteria, item.criterion)
+    return max > min ? Math.min(1, Math.max(0, (item.raw_score - min) / (max - min))) : 0
+  })
+  pdf.polygon(shares.map((share, i) => point(i, share)), { stroke: PURPLE, fill: PURPLE_TINT, lineWidth: 1.5 })
+}
+
+export function teamReportPdf(
+  report: TeamReport,
+  criteria: CriterionDefinition[],
+  eventSettings: EventSettings
+): Uint8Array<ArrayBuffer> {
+  const { result } = report
+  const pdf = createPdf()
+  const page = layout(pdf)
+
+  // Event header
+  page.paragraph(eventSettings.eventName || 'Game Jam', 18, BLACK, 0, true)
+  if (eventSettings.themeDescription) page.paragraph(eventSettings.themeDescription, 9, GRAY)
+  page.paragraph(`Feedback report generated ${new Date().toLocaleDateString()}`, 8, GRAY)
+  page.gap(16)
+
+  page.paragraph(result.game_name, 20, BLACK, 0, true)
+  page.paragraph(`by ${result.team_name}`, 11, GRAY)
+  page.gap(6)
+  page.paragraph(
+    `${result.weighted_score} / ${result.max_possible_score} pts · ${result.percentage_score.toFixed(1)}%`,
+    14, PURPLE, 0, true
+  )
+  const details = [
+    report.placement,
+    report.judgeCount ? `${report.judgeCount} ${report.judgeCount === 1 ? 'judge' : 'judges'}` : ''
+  ].filter(Boolean)
+  if (details.length > 0) page.paragraph(details.join(' · '), 10, GRAY)
+
+  // Score breakdown table
+  page.heading('Score Breakdown')
+  const columns = [MARGIN, MARGIN + 250, MARGIN + 340, MARGIN + 420]
+  const headerTop = page.reserve(18)
+  ;['Criterion', 'Raw Score', 'Weight', 'Weighted'].forEach((label, i) => {
+    pdf.text(columns[i], headerTop - 13, label, { size: 9, bold: true, color: GRAY })
+  })
+  for (const item of result.score_breakdown) {
+    const top = page.reserve(18)
+    pdf.line(MARGIN, top, PAGE_WIDTH - MARGIN, top, { stroke: LIGHT, lineWidth: 0.5 })
+    pdf.text(columns[0], top - 13, criterionLabel(criteria, item.criterion), { size: 10 })
+    pdf.text(columns[1], top - 13, `${item.raw_score} / ${criterionScaleMax(criteria, item.criterion)}`, { size: 10 })
+    pdf.text(columns[2], top - 13, `${item.weight}%`, { size: 10 })
+    pdf.text(columns[3], top - 13, `${item.weighted_score} pts`, { size: 10, bold: true })
+  }
+
+  // A radar needs at least three axes to enclose an area
+  if (result.score_breakdown.length >= 3) {
+    page.heading('Criterion Profile')
+    const top = page.reserve(RADAR_RADIUS * 2 + 50)
+    drawRadar(pdf, PAGE_WIDTH / 2, top - RADAR_RADIUS - 25, result, criteria)
+  }
+
+  page.heading('Rule Compliance')
+  page.paragraph(
+    result.rule_compliance.compliant ? 'Compliant' : 'Non-Compliant',
+    11, result.rule_compliance.compliant ? GREEN : RED, 0, true
+  )
+  page.gap(4)
+  page.paragraph('Assessment', 10, BLACK, 0, true)
+  page.paragraph(result.rule_compliance.assessment, 10, GRAY)
+  page.gap(4)
+  page.paragraph('Theme Alignment', 10, BLACK, 0, true)
+  page.paragraph(result.rule_compliance.theme_alignment, 10, GRAY)
+
+  for (const section of Object.keys(FEEDBACK_SECTION_LABELS) as (keyof Feedback)[]) {
+    page.heading(FEEDBACK_SECTION_LABELS[section])
+    const points = result.feedback?.[section] || []
+    if (points.length === 0) page.paragraph('None noted.', 10, GRAY)
+    for (const point of points) {
+      page.paragraph(`•  ${point}`, 10, BLACK, 6)
+      page.gap(2)
+    }
+  }
+
+  page.heading('Ranking Recommendation')
+  page.paragraph(result.rank_recommendation, 10)
+
+  page.heading('Summary')
+  page.paragraph(result.summary, 10)
+
+  return pdf.toBytes()
+}
+
+export function teamReportsZip(
+  reports: TeamReport[],
+  criteria: CriterionDefinition[],
+  eventSettings: EventSettings
+): Uint8Array<ArrayBuffer> {
+  return createZip(reports.map(report => ({
+    name: teamReportFileName(report.result),
+    data: teamReportPdf(report, criteria, eventSettings)
+  })))
+}
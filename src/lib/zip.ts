@@ -0,0 +1,110 @@
+/**
+ * Minimal ZIP writer
+ * Bundles generated files into one uncompressed (stored) archive for bulk
+ * downloads
+ */
+
+export interface ZipFile {
+  name: string
+  data: Uint8Array
+}
+
+let crcTable: number[] | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      return c >>> 0
+    })
+  }
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Repeated names get a numeric suffix so no file overwrites another
+ */
+function uniqueNames(files: ZipFile[]): string[] {
+  const seen = new Map<string, number>()
+  return files.map(({ name }) => {
+    const count = seen.get(name) || 0
+    seen.set(name, count + 1)
+    if (count === 0) return name
+    const dot = name.lastIndexOf('.')
+    return dot > 0 ? `${name.slice(0, dot)}-${count + 1}${name.slice(dot)}` : `${name}-${count + 1}`
+  })
+}
+
+export function createZip(files: ZipFile[], modified = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const names = uniqueNames(files)
+  const local: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach((file, index) => {
+    const name = encoder.encode(names[index])
+    const crc = crc32(file.data)
+
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true)
+    // Bit 11: names are UTF-8
+    header.setUint16(6, 0x0800, true)
+    header.setUint16(8, 0, true)
+    header.setUint16(10, time, true)
+    header.setUint16(12, date, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, file.data.length, true)
+    header.setUint32(22, file.data.length, true)
+    header.setUint16(26, name.length, true)
+    header.setUint16(28, 0, true)
+    local.push(new Uint8Array(header.buffer), name, file.data)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(4, 20, true)
+    entry.setUint16(6, 20, true)
+    entry.setUint16(8, 0x0800, true)
+    entry.setUint16(10, 0, true)
+    entry.setUint16(12, time, true)
+    entry.setUint16(14, date, true)
+    entry.setUint32(16, crc, true)
+    entry.setUint32(20, file.data.length, true)
+    entry.setUint32(24, file.data.length, true)
+    entry.setUint16(28, name.length, true)
+    entry.setUint32(42, offset, true)
+    central.push(new Uint8Array(entry.buffer), name)
+
+    offset += 30 + name.length + file.data.length
+  })
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)]
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    out.set(part, position)
+    position += part.length
+  }
+  return out
+}
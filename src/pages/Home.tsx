@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -14,7 +14,121 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Progress } from '@/components/ui/progress'
 import { cn } from '@/lib/utils'
-import { callAIAgent, type NormalizedAgentResponse } from '@/utils/aiAgent'
+import { requestEvaluation } from '@/lib/evaluation-agent'
+import { SubmissionImporter } from '@/components/SubmissionImporter'
+import { EvaluationQueuePanel } from '@/components/EvaluationQueuePanel'
+import { ValidationIssuesTable } from '@/components/ValidationIssuesTable'
+import { CriteriaEditor } from '@/components/CriteriaEditor'
+import { RevisionHistory } from '@/components/RevisionHistory'
+import { RankingEditor } from '@/components/RankingEditor'
+import { AwardCategoriesEditor } from '@/components/AwardCategoriesEditor'
+import { JudgeBiasReport } from '@/components/JudgeBiasReport'
+import { AssignmentPlanner } from '@/components/AssignmentPlanner'
+import { ReliabilityAnalytics } from '@/components/ReliabilityAnalytics'
+import { DashboardCharts } from '@/components/DashboardCharts'
+import { GameComparison } from '@/components/GameComparison'
+import { LeaderboardExportPanel } from '@/components/LeaderboardExportPanel'
+import { ConflictDeclarationsEditor } from '@/components/ConflictDeclarationsEditor'
+import { AuditLogPanel } from '@/components/AuditLogPanel'
+import { BackupRestorePanel } from '@/components/BackupRestorePanel'
+import { PublishResultsPanel } from '@/components/PublishResultsPanel'
+import { CeremonyPresentation } from '@/components/CeremonyPresentation'
+import { useEvaluationQueue } from '@/hooks/useEvaluationQueue'
+import { createQueueItem } from '@/lib/evaluation-queue'
+import { applyLocalScore, computeLocalScore, DISCREPANCY_LABELS } from '@/lib/scoring'
+import { aggregateEvaluations, evaluationKey, findJudgeSheet, upsertJudgeSheet, AGGREGATION_LABELS } from '@/lib/aggregation'
+import { recordRevision } from '@/lib/revisions'
+import { MIN_NORMALIZED_SHEETS, NORMALIZATION_LABELS } from '@/lib/normalization'
+import { judgeQueue, DEFAULT_ASSIGNMENT_PLAN } from '@/lib/assignments'
+import { describeConflict, findConflict, findConflictedSheets, type ConflictedSheet } from '@/lib/conflicts'
+import { compareEntries, rankByKey, rankEntries, DEFAULT_RANKING } from '@/lib/ranking'
+import { matchesDashboardFilter, type DashboardFilter } from '@/lib/dashboard'
+import { teamReportFileName, teamReportPdf, teamReportsZip, type TeamReport } from '@/lib/team-report'
+import { computeAwards, validateAwards, AWARD_FORMULA_LABELS, DEFAULT_AWARDS } from '@/lib/awards'
+import { buildPublicResults, withTeamTokens, DEFAULT_PUBLISH_SETTINGS } from '@/lib/public-results'
+import {
+  backupFileName,
+  createBackup,
+  readBackupRecords,
+  writeBackupRecords,
+  type EventBackup,
+  type RestorePlan
+} from '@/lib/backup'
+import {
+  canUndo,
+  isArchivedEntry,
+  isDisqualified,
+  isRanked,
+  moderateEntry,
+  undoModeration,
+  withEntryStatuses,
+  AUDIT_ACTION_LABELS,
+  type ModerationState
+} from '@/lib/moderation'
+import {
+  cloneEvent,
+  createEvent,
+  isArchived,
+  scopedKey,
+  sortEvents,
+  DEFAULT_EVENT_SETTINGS,
+  EVENT_SCOPED_KEYS,
+  TEMPLATE_KEYS,
+  type EventScopedKey
+} from '@/lib/events'
+import {
+  readEventRecord,
+  readRecord,
+  subscribe,
+  writeEventRecord,
+  writeRecord,
+  type StorageWriteResult
+} from '@/lib/storage'
+import {
+  criterionLabel,
+  criterionScaleMax,
+  levelForScore,
+  totalWeight,
+  unscoredCriteria,
+  validateCriteria,
+  DEFAULT_CRITERIA
+} from '@/lib/criteria'
+import {
+  createSubmission,
+  findDuplicateSubmission,
+  isWebUrl,
+  splitList,
+  withSubmissionNames,
+  EMPTY_SUBMISSION_DRAFT,
+  type SubmissionDraft
+} from '@/lib/submissions'
+import type {
+  AggregatedEvaluation,
+  AggregationMethod,
+  AssignmentPlan,
+  AuditAction,
+  AuditEntry,
+  AwardSettings,
+  CriteriaScores,
+  CriterionDefinition,
+  EvaluationMetadata,
+  EvaluationResult,
+  EvaluationRevision,
+  EvaluationQueueItem,
+  EntryStatus,
+  EventSettings,
+  EventRecords,
+  JamEvent,
+  Judge,
+  NormalizationMethod,
+  PublicResults,
+  PublishSettings,
+  RankingSettings,
+  SavedEvaluation,
+  ScoreDiscrepancy,
+  Submission,
+  ValidationIssue
+} from '@/types'
 import {
   LayoutDashboard,
   Trophy,
@@ -38,157 +152,67 @@ import {
   Users,
   Award,
   Clock,
-  Target
+  Target,
+  Upload,
+  ListPlus,
+  ListChecks,
+  AlertTriangle,
+  Archive,
+  ArchiveRestore,
+  Copy,
+  CalendarDays,
+  History,
+  Ban,
+  Trash2,
+  ClipboardList,
+  ShieldAlert,
+  Activity,
+  Scale,
+  Globe,
+  Presentation
 } from 'lucide-react'
 
-// Agent ID from test results
-const AGENT_ID = "6972544f1d92f5e2dd22ee9c"
-
-// TypeScript interfaces based on actual test response
-interface ScoreBreakdownItem {
-  criterion: string
-  raw_score: number
-  weight: number
-  weighted_score: number
-}
-
-interface RuleCompliance {
-  compliant: boolean
-  assessment: string
-  theme_alignment: string
-}
-
-interface Feedback {
-  strengths: string[]
-  areas_for_growth: string[]
-  creative_insights: string[]
-  learning_opportunities: string[]
-}
-
-interface EvaluationResult {
-  game_name: string
-  team_name: string
-  weighted_score: number
-  max_possible_score: number
-  percentage_score: number
-  score_breakdown: ScoreBreakdownItem[]
-  rule_compliance: RuleCompliance
-  feedback: Feedback
-  rank_recommendation: string
-  summary: string
-}
-
-interface EvaluationMetadata {
-  agent_name: string
-  timestamp: string
-  evaluation_version: string
-}
-
-interface SavedEvaluation {
-  id: string
-  result: EvaluationResult
-  metadata: EvaluationMetadata
-  savedAt: string
-}
-
-interface CriteriaWeights {
-  originality: number
-  aiToolUsage: number
-  playability: number
-  polish: number
-  completeness: number
-  presentation: number
-  technicalComplexity: number
-  accessibility: number
-  ruleRelevance: number
-}
-
-interface CriteriaScores {
-  originality: number
-  aiToolUsage: number
-  playability: number
-  polish: number
-  completeness: number
-  presentation: number
-  technicalComplexity: number
-  accessibility: number
-  ruleRelevance: number
-}
-
-interface EventSettings {
-  eventName: string
-  themeDescription: string
-  rules: string[]
-}
-
-// Default weights from PRD
-const DEFAULT_WEIGHTS: CriteriaWeights = {
-  originality: 15,
-  aiToolUsage: 20,
-  playability: 15,
-  polish: 10,
-  completeness: 10,
-  presentation: 10,
-  technicalComplexity: 5,
-  accessibility: 5,
-  ruleRelevance: 10
-}
-
-// Criteria labels
-const CRITERIA_LABELS: Record<keyof CriteriaWeights, string> = {
-  originality: 'Originality',
-  aiToolUsage: 'AI Tool Usage',
-  playability: 'Playability',
-  polish: 'Polish',
-  completeness: 'Completeness',
-  presentation: 'Presentation',
-  technicalComplexity: 'Technical Complexity',
-  accessibility: 'Accessibility',
-  ruleRelevance: 'Rule Relevance'
-}
-
-// Helper function to get item from localStorage
-function getLocalStorage<T>(key: string, defaultValue: T): T {
-  try {
-    const item = localStorage.getItem(key)
-    return item ? JSON.parse(item) : defaultValue
-  } catch {
-    return defaultValue
-  }
-}
-
-// Helper function to set item in localStorage
-function setLocalStorage<T>(key: string, value: T): void {
-  try {
-    localStorage.setItem(key, JSON.stringify(value))
-  } catch (e) {
-    console.error('Failed to save to localStorage:', e)
-  }
-}
+// Judge panel used until organizers configure their own
+const DEFAULT_JUDGES: Judge[] = [
+  { id: 'judge-1', name: 'Judge 1' }
+]
 
 // Dashboard Section Component
 function DashboardSection({
   evaluations,
+  criteria,
+  ranking,
+  submissions,
+  readOnly,
   onNewEvaluation,
-  onViewLeaderboard
+  onViewLeaderboard,
+  onFilterLeaderboard
 }: {
-  evaluations: SavedEvaluation[]
+  evaluations: AggregatedEvaluation[]
+  criteria: CriterionDefinition[]
+  ranking: RankingSettings
+  submissions: Submission[]
+  readOnly: boolean
   onNewEvaluation: () => void
   onViewLeaderboard: () => void
+  onFilterLeaderboard: (filter: DashboardFilter) => void
 }) {
-  const totalSubmissions = evaluations.length
-  const avgScore = evaluations.length > 0
-    ? evaluations.reduce((sum, e) => sum + e.result.percentage_score, 0) / evaluations.length
+  // Disqualified and archived entries stay out of the stats
+  const ranked = evaluations.filter(isRanked)
+  const disqualifiedCount = evaluations.filter(isDisqualified).length
+  const archivedCount = evaluations.filter(isArchivedEntry).length
+  const totalSubmissions = ranked.length
+  const avgScore = ranked.length > 0
+    ? ranked.reduce((sum, e) => sum + e.result.percentage_score, 0) / ranked.length
     : 0
-  const topRated = evaluations.length > 0
-    ? evaluations.reduce((max, e) => e.result.percentage_score > max.result.percentage_score ? e : max)
-    : null
-  const avgCompliance = evaluations.length > 0
-    ? (evaluations.filter(e => e.result.rule_compliance.compliant).length / evaluations.length) * 100
+  const topRated = rankEntries(ranked, ranking, submissions)[0]?.entry || null
+  const avgCompliance = ranked.length > 0
+    ? (ranked.filter(e => e.result.rule_compliance.compliant).length / ranked.length) * 100
     : 0
 
-  const recentEvaluations = [...evaluations]
-    .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime())
+  const recentEvaluations = evaluations
+    .filter(e => !isArchivedEntry(e))
+    .sort((a, b) => new Date(b.lastSavedAt).getTime() - new Date(a.lastSavedAt).getTime())
     .slice(0, 5)
 
   return (
@@ -210,6 +234,11 @@ function DashboardSection({
             </CardHeader>
             <CardContent>
               <div className="text-4xl font-bold text-white">{totalSubmissions}</div>
+              {(disqualifiedCount > 0 || archivedCount > 0) && (
+                <div className="text-sm text-gray-400 mt-1">
+                  {disqualifiedCount} disqualified · {archivedCount} archived
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -275,7 +304,7 @@ function DashboardSection({
                 <div className="space-y-3">
                   {recentEvaluations.map((evaluation) => (
                     <div
-                      key={evaluation.id}
+                      key={evaluation.key}
                       className="p-4 rounded-lg border border-gray-800 bg-gray-950 hover:border-gray-700 transition-colors"
                     >
                       <div className="flex items-start justify-between mb-2">
@@ -284,6 +313,11 @@ function DashboardSection({
                           <div className="text-sm text-gray-400">{evaluation.result.team_name}</div>
                         </div>
                         <div className="text-right">
+                          {isDisqualified(evaluation) && (
+                            <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30 mb-1">
+                              Disqualified
+                            </Badge>
+                          )}
                           <div className="text-lg font-bold text-cyan-400">
                             {evaluation.result.percentage_score.toFixed(1)}%
                           </div>
@@ -299,7 +333,9 @@ function DashboardSection({
                         </div>
                       </div>
                       <div className="text-xs text-gray-500">
-                        {new Date(evaluation.savedAt).toLocaleString()}
+                        {new Date(evaluation.lastSavedAt).toLocaleString()}
+                        {' · '}
+                        {evaluation.judgeCount} {evaluation.judgeCount === 1 ? 'judge' : 'judges'}
                       </div>
                     </div>
                   ))}
@@ -310,15 +346,19 @@ function DashboardSection({
         </Card>
       </div>
 
+      <DashboardCharts entries={ranked} criteria={criteria} onSelect={onFilterLeaderboard} />
+
       {/* Quick Actions */}
       <div className="flex gap-4">
-        <Button
-          onClick={onNewEvaluation}
-          className="bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Evaluation
-        </Button>
+        {!readOnly && (
+          <Button
+            onClick={onNewEvaluation}
+            className="bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Evaluation
+          </Button>
+        )}
         <Button
           onClick={onViewLeaderboard}
           variant="outline"
@@ -332,155 +372,607 @@ function DashboardSection({
   )
 }
 
+// Submissions Section Component
+function SubmissionsSection({
+  submissions,
+  onSubmissionsChange,
+  readOnly
+}: {
+  submissions: Submission[]
+  onSubmissionsChange: (submissions: Submission[]) => void
+  readOnly: boolean
+}) {
+  const [draft, setDraft] = useState<SubmissionDraft>(EMPTY_SUBMISSION_DRAFT)
+  const [membersInput, setMembersInput] = useState('')
+  const [tagsInput, setTagsInput] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showImporter, setShowImporter] = useState(false)
+
+  const persist = onSubmissionsChange
+
+  const resetForm = () => {
+    setDraft(EMPTY_SUBMISSION_DRAFT)
+    setMembersInput('')
+    setTagsInput('')
+    setEditingId(null)
+    setError(null)
+  }
+
+  const handleSave = () => {
+    if (!draft.gameName.trim() || !draft.teamName.trim()) {
+      setError('Game name and team name are required')
+      return
+    }
+
+    const duplicate = findDuplicateSubmission(submissions, draft, editingId || undefined)
+    if (duplicate) {
+      setError(`"${duplicate.gameName}" by ${duplicate.teamName} is already registered`)
+      return
+    }
+
+    const complete: SubmissionDraft = {
+      ...draft,
+      members: splitList(membersInput),
+      tags: splitList(tagsInput)
+    }
+
+    if (editingId) {
+      persist(submissions.map(s => s.id === editingId
+        ? { ...createSubmission(complete), id: s.id, createdAt: s.createdAt }
+        : s
+      ))
+    } else {
+      persist([...submissions, createSubmission(complete)])
+    }
+    resetForm()
+  }
+
+  const handleImport = (drafts: SubmissionDraft[]) => {
+    persist([...submissions, ...drafts.map(createSubmission)])
+  }
+
+  const handleEdit = (submission: Submission) => {
+    setDraft(submission)
+    setMembersInput(submission.members.join(', '))
+    setTagsInput(submission.tags.join(', '))
+    setEditingId(submission.id)
+    setError(null)
+  }
+
+  const handleDelete = (submission: Submission) => {
+    if (!confirm(`Remove "${submission.gameName}" from the registry? Saved evaluations are kept.`)) return
+    persist(submissions.filter(s => s.id !== submission.id))
+    if (editingId === submission.id) resetForm()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-white mb-2">Submissions</h2>
+          <p className="text-gray-400">Register every game entered in the jam</p>
+        </div>
+        {!readOnly && (
+          <Button
+            onClick={() => setShowImporter(true)}
+            variant="outline"
+            className="border-gray-700 text-gray-200 hover:bg-gray-800"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV / JSON
+          </Button>
+        )}
+      </div>
+
+      {showImporter && (
+        <SubmissionImporter
+          existing={submissions}
+          onImport={handleImport}
+          onClose={() => setShowImporter(false)}
+        />
+      )}
+
+      {/* Submission Form */}
+      {!readOnly && (
+        <Card className="bg-gray-900 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-gray-200">
+              {editingId ? 'Edit Submission' : 'Add Submission'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="submissionGameName" className="text-gray-200">Game Name</Label>
+                <Input
+                  id="submissionGameName"
+                  value={draft.gameName}
+                  onChange={(e) => setDraft(prev => ({ ...prev, gameName: e.target.value }))}
+                  placeholder="Enter game name"
+                  className="bg-gray-950 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="submissionTeamName" className="text-gray-200">Team Name</Label>
+                <Input
+                  id="submissionTeamName"
+                  value={draft.teamName}
+                  onChange={(e) => setDraft(prev => ({ ...prev, teamName: e.target.value }))}
+                  placeholder="Enter team name"
+                  className="bg-gray-950 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="submissionMembers" className="text-gray-200">Members</Label>
+                <Input
+                  id="submissionMembers"
+                  value={membersInput}
+                  onChange={(e) => setMembersInput(e.target.value)}
+                  placeholder="Comma-separated names"
+                  className="bg-gray-950 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="submissionTags" className="text-gray-200">Tags</Label>
+                <Input
+                  id="submissionTags"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder="Comma-separated tags"
+                  className="bg-gray-950 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="submissionBuildUrl" className="text-gray-200">Build URL</Label>
+                <Input
+                  id="submissionBuildUrl"
+                  value={draft.buildUrl}
+                  onChange={(e) => setDraft(prev => ({ ...prev, buildUrl: e.target.value }))}
+                  placeholder="https://..."
+                  className="bg-gray-950 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="submissionRepoUrl" className="text-gray-200">Repository URL</Label>
+                <Input
+                  id="submissionRepoUrl"
+                  value={draft.repoUrl}
+                  onChange={(e) => setDraft(prev => ({ ...prev, repoUrl: e.target.value }))}
+                  placeholder="https://..."
+                  className="bg-gray-950 border-gray-700 text-white"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="submissionDescription" className="text-gray-200">Description</Label>
+              <Textarea
+                id="submissionDescription"
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Describe the game, AI tools used, and how it fits the theme..."
+                rows={3}
+                className="bg-gray-950 border-gray-700 text-white"
+              />
+            </div>
+
+            {error && (
+              <Alert className="bg-red-500/10 border-red-500/30">
+                <AlertCircle className="h-4 w-4 text-red-400" />
+                <AlertTitle className="text-red-400">Error</AlertTitle>
+                <AlertDescription className="text-red-300">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} className="bg-purple-600 hover:bg-purple-700">
+                {editingId ? <Save className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                {editingId ? 'Update Submission' : 'Add Submission'}
+              </Button>
+              {editingId && (
+                <Button
+                  onClick={resetForm}
+                  variant="outline"
+                  className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Registry Table */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="p-0">
+          {submissions.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No submissions registered yet.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                    <TableHead className="text-gray-300">Game Name</TableHead>
+                    <TableHead className="text-gray-300">Team</TableHead>
+                    <TableHead className="text-gray-300">Members</TableHead>
+                    <TableHead className="text-gray-300">Tags</TableHead>
+                    <TableHead className="text-gray-300">Links</TableHead>
+                    {!readOnly && <TableHead className="text-gray-300 w-24"></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {submissions.map((submission) => (
+                    <TableRow key={submission.id} className="border-gray-800 hover:bg-gray-800/50">
+                      <TableCell className="font-semibold text-white">{submission.gameName}</TableCell>
+                      <TableCell className="text-gray-400">{submission.teamName}</TableCell>
+                      <TableCell className="text-gray-400">{submission.members.join(', ')}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {submission.tags.map((tag) => (
+                            <Badge key={tag} className="bg-cyan-500/20 text-cyan-400 border-cyan-500/30">{tag}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="flex flex-col gap-1">
+                          {submission.buildUrl && (
+                            isWebUrl(submission.buildUrl) ? (
+                              <a href={submission.buildUrl} target="_blank" rel="noreferrer" className="text-purple-400 hover:underline">
+                                Build
+                              </a>
+                            ) : (
+                              <span className="text-gray-500 break-all">Build: {submission.buildUrl}</span>
+                            )
+                          )}
+                          {submission.repoUrl && (
+                            isWebUrl(submission.repoUrl) ? (
+                              <a href={submission.repoUrl} target="_blank" rel="noreferrer" className="text-purple-400 hover:underline">
+                                Repository
+                              </a>
+                            ) : (
+                              <span className="text-gray-500 break-all">Repository: {submission.repoUrl}</span>
+                            )
+                          )}
+                        </div>
+                      </TableCell>
+                      {!readOnly && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(submission)}
+                              className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDelete(submission)}
+                              className="border-red-700 text-red-400 hover:bg-red-900/20"
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
 // Evaluate Section Component
 function EvaluateSection({
-  weights,
-  eventSettings
+  criteria,
+  eventSettings,
+  judges,
+  activeJudgeId,
+  onActiveJudgeChange,
+  submissions,
+  assignmentPlan,
+  evaluations,
+  onEnqueue,
+  onSave,
+  editing,
+  onEditDone
 }: {
-  weights: CriteriaWeights
+  criteria: CriterionDefinition[]
   eventSettings: EventSettings
+  judges: Judge[]
+  activeJudgeId: string
+  onActiveJudgeChange: (judgeId: string) => void
+  submissions: Submission[]
+  assignmentPlan: AssignmentPlan
+  evaluations: SavedEvaluation[]
+  onEnqueue: (item: EvaluationQueueItem) => void
+  onSave: (evaluation: SavedEvaluation, author: Judge | null, rescoredBy: EvaluationRevision['rescoredBy']) => void
+  // Saved sheet reopened for a new revision
+  editing: SavedEvaluation | null
+  onEditDone: () => void
 }) {
-  const [gameName, setGameName] = useState('')
-  const [teamName, setTeamName] = useState('')
-  const [description, setDescription] = useState('')
-  const [scores, setScores] = useState<CriteriaScores>({
-    originality: 0,
-    aiToolUsage: 0,
-    playability: 0,
-    polish: 0,
-    completeness: 0,
-    presentation: 0,
-    technicalComplexity: 0,
-    accessibility: 0,
-    ruleRelevance: 0
-  })
-  const [complianceNotes, setComplianceNotes] = useState('')
+  const activeJudge = judges.find(j => j.id === activeJudgeId) || null
+  const [submissionId, setSubmissionId] = useState(editing?.submissionId || '')
+  const [description, setDescription] = useState(editing?.description || '')
+  const submission = submissions.find(s => s.id === submissionId) || null
+  const [scores, setScores] = useState<CriteriaScores>(editing?.scores || {})
+  const [complianceNotes, setComplianceNotes] = useState(editing?.complianceNotes || '')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [result, setResult] = useState<EvaluationResult | null>(null)
   const [metadata, setMetadata] = useState<EvaluationMetadata | null>(null)
+  const [discrepancies, setDiscrepancies] = useState<ScoreDiscrepancy[]>([])
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([])
+  const localScore = computeLocalScore(scores, criteria)
+  const myQueue = activeJudge ? judgeQueue(assignmentPlan, activeJudge.id, submissions, evaluations) : []
+  // An edited sheet stays with its judge, so that judge's declarations apply
+  const scoringJudge = (editing && judges.find(j => j.id === editing.judgeId)) || activeJudge
+  const conflict = scoringJudge && submission ? findConflict(scoringJudge, submission) : null
+  const conflictMessage = conflict
+    ? `${scoringJudge.name} declared a conflict of interest with this game (${describeConflict(conflict, submissions)}) and can't score it`
+    : null
+
+  const handleSubmissionChange = (id: string) => {
+    setSubmissionId(id)
+    setDescription(submissions.find(s => s.id === id)?.description || '')
+    setResult(null)
+    setMetadata(null)
+    setDiscrepancies([])
+    setValidationIssues([])
+  }
 
-  const handleScoreChange = (criterion: keyof CriteriaScores, value: number) => {
+  const handleScoreChange = (criterion: string, value: number) => {
     setScores(prev => ({ ...prev, [criterion]: value }))
   }
 
-  const handleGenerateEvaluation = async () => {
-    if (!gameName.trim() || !teamName.trim()) {
-      setError('Game name and team name are required')
-      return
+  // Returns an error message when the sheet is not ready for the agent
+  const validateSheet = (): string | null => {
+    if (!activeJudge) return 'Select the judge who is scoring this game'
+    if (!submission) return 'Select a submission to evaluate'
+    if (conflictMessage) return conflictMessage
+
+    const unscored = unscoredCriteria(criteria, scores)
+    if (unscored.length > 0) {
+      return `Please score all criteria. Missing: ${unscored.map(c => c.label).join(', ')}`
     }
+    return null
+  }
 
-    // Check if all scores are set (not 0)
-    const unscoredCriteria = (Object.keys(scores) as Array<keyof CriteriaScores>).filter(
-      criterion => scores[criterion] === 0
-    )
-    if (unscoredCriteria.length > 0) {
-      setError(`Please score all criteria. Missing: ${unscoredCriteria.map(c => CRITERIA_LABELS[c]).join(', ')}`)
+  const handleGenerateEvaluation = async () => {
+    const validationError = validateSheet()
+    if (validationError) {
+      setError(validationError)
       return
     }
 
     setLoading(true)
     setError(null)
     setResult(null)
+    setValidationIssues([])
+
+    const outcome = await requestEvaluation({
+      submission,
+      description,
+      scores,
+      criteria,
+      rules: eventSettings.rules,
+      complianceNotes
+    })
 
-    try {
-      const payload = {
-        gameName: gameName.trim(),
-        teamName: teamName.trim(),
-        description: description.trim(),
-        scores,
-        criteriaWeights: weights,
-        eventRules: eventSettings.rules.join('. '),
-        complianceNotes: complianceNotes.trim()
-      }
-
-      const response = await callAIAgent(JSON.stringify(payload), AGENT_ID)
+    setValidationIssues(outcome.validationIssues || [])
+    if (outcome.success) {
+      setResult(outcome.result)
+      setMetadata(outcome.metadata)
+      setDiscrepancies(outcome.discrepancies || [])
+    } else {
+      setError(outcome.error)
+    }
+    setLoading(false)
+  }
 
-      if (response.success && response.response.status === 'success') {
-        setResult(response.response.result as EvaluationResult)
-        setMetadata(response.response.metadata as EvaluationMetadata)
-      } else {
-        setError(response.error || response.response.message || 'Evaluation failed')
-      }
-    } catch (e) {
-      setError('Network error during evaluation')
-    } finally {
-      setLoading(false)
+  const handleEnqueue = () => {
+    const validationError = validateSheet()
+    if (validationError) {
+      setError(validationError)
+      return
     }
+
+    onEnqueue(createQueueItem({
+      submission,
+      judge: activeJudge,
+      description,
+      scores,
+      complianceNotes
+    }))
+    setError(null)
+    alert(`${submission.gameName} added to the evaluation queue`)
+    handleReset()
   }
 
   const handleSave = () => {
-    if (!result || !metadata) return
+    if (!result || !metadata || !activeJudge || !submission) return
+    if (conflictMessage) {
+      setError(conflictMessage)
+      return
+    }
 
     const evaluation: SavedEvaluation = {
-      id: `eval-${Date.now()}`,
+      id: editing?.id || `eval-${Date.now()}`,
       result,
       metadata,
-      savedAt: new Date().toISOString()
+      savedAt: new Date().toISOString(),
+      // An edited sheet stays with its judge; the active judge is the revision author
+      judgeId: editing ? editing.judgeId : activeJudge.id,
+      judgeName: editing ? editing.judgeName : activeJudge.name,
+      scores,
+      submissionId: submission.id,
+      scoreDiscrepancies: discrepancies,
+      description,
+      complianceNotes
     }
 
-    const existing = getLocalStorage<SavedEvaluation[]>('evaluations', [])
-    setLocalStorage('evaluations', [...existing, evaluation])
-
+    onSave(evaluation, activeJudge, 'agent')
     alert('Evaluation saved successfully!')
+    if (editing) onEditDone()
+  }
+
+  // Keep the agent's qualitative feedback and only recompute the numbers
+  const handleSaveWithoutAgent = () => {
+    if (!editing) return
+    if (!activeJudge) {
+      setError('Select the judge who is making this change')
+      return
+    }
+    if (conflictMessage) {
+      setError(conflictMessage)
+      return
+    }
+    const unscored = unscoredCriteria(criteria, scores)
+    if (unscored.length > 0) {
+      setError(`Please score all criteria. Missing: ${unscored.map(c => c.label).join(', ')}`)
+      return
+    }
+
+    onSave({
+      ...editing,
+      result: applyLocalScore(editing.result, scores, criteria).result,
+      savedAt: new Date().toISOString(),
+      scores,
+      submissionId: submission?.id || editing.submissionId,
+      scoreDiscrepancies: [],
+      description,
+      complianceNotes
+    }, activeJudge, 'local')
+    alert('Evaluation updated without re-running the agent')
+    onEditDone()
   }
 
   const handleReset = () => {
     setResult(null)
     setMetadata(null)
+    setDiscrepancies([])
+    setValidationIssues([])
     setError(null)
-    setGameName('')
-    setTeamName('')
+    setSubmissionId('')
     setDescription('')
     setComplianceNotes('')
-    setScores({
-      originality: 0,
-      aiToolUsage: 0,
-      playability: 0,
-      polish: 0,
-      completeness: 0,
-      presentation: 0,
-      technicalComplexity: 0,
-      accessibility: 0,
-      ruleRelevance: 0
-    })
+    setScores({})
   }
 
   return (
     <div className="space-y-6">
       <div>
-        <h2 className="text-3xl font-bold text-white mb-2">Evaluate Game</h2>
-        <p className="text-gray-400">Score and analyze a game submission</p>
+        <h2 className="text-3xl font-bold text-white mb-2">{editing ? 'Edit Evaluation' : 'Evaluate Game'}</h2>
+        <p className="text-gray-400">
+          {editing
+            ? `Revising ${editing.judgeName || 'a'}'s sheet for ${editing.result.game_name} (revision ${editing.revision || 1}) · re-run the agent or save the new scores directly`
+            : 'Score and analyze a game submission'}
+        </p>
       </div>
 
+      {/* Assigned Games */}
+      {!editing && myQueue.length > 0 && (
+        <Card className="bg-gray-900 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-gray-200 flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-purple-400" />
+              {activeJudge.name}'s Queue
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              {myQueue.filter(q => q.scored).length} of {myQueue.length} assigned games scored
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {myQueue.map(({ submission: assigned, scored }) => (
+                <Button
+                  key={assigned.id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSubmissionChange(assigned.id)}
+                  className={cn(
+                    'border-gray-700 hover:bg-gray-800',
+                    assigned.id === submissionId ? 'bg-purple-600/20 border-purple-500 text-white' : 'text-gray-200',
+                    scored && 'text-gray-500'
+                  )}
+                >
+                  {scored && <CheckCircle className="h-4 w-4 mr-1 text-green-400" />}
+                  {assigned.gameName}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Game Info Section */}
       <Card className="bg-gray-900 border-gray-800">
         <CardHeader>
           <CardTitle className="text-gray-200">Game Information</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="gameName" className="text-gray-200">Game Name</Label>
-              <Input
-                id="gameName"
-                value={gameName}
-                onChange={(e) => setGameName(e.target.value)}
-                placeholder="Enter game name"
-                className="bg-gray-950 border-gray-700 text-white"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="teamName" className="text-gray-200">Team Name</Label>
-              <Input
-                id="teamName"
-                value={teamName}
-                onChange={(e) => setTeamName(e.target.value)}
-                placeholder="Enter team name"
-                className="bg-gray-950 border-gray-700 text-white"
-              />
-            </div>
+          <div className="space-y-2">
+            <Label className="text-gray-200">{editing ? 'Edited By' : 'Scoring Judge'}</Label>
+            <Select value={activeJudge ? activeJudge.id : ''} onValueChange={onActiveJudgeChange}>
+              <SelectTrigger className="bg-gray-950 border-gray-700 text-white">
+                <SelectValue placeholder="Select judge" />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-gray-700">
+                {judges.map((judge) => (
+                  <SelectItem key={judge.id} value={judge.id}>{judge.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-200">Submission</Label>
+            {submissions.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                No submissions registered yet. Add games in the Submissions section first.
+              </div>
+            ) : (
+              <Select value={submissionId} onValueChange={handleSubmissionChange} disabled={Boolean(editing?.submissionId)}>
+                <SelectTrigger className="bg-gray-950 border-gray-700 text-white">
+                  <SelectValue placeholder="Select submission" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {submissions.map((s) => (
+                    <SelectItem key={s.id} value={s.id} disabled={Boolean(scoringJudge && findConflict(scoringJudge, s))}>
+                      {s.gameName} — {s.teamName}
+                      {scoringJudge && findConflict(scoringJudge, s) && ' (conflict of interest)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
+          {conflictMessage && (
+            <Alert className="bg-red-500/10 border-red-500/30">
+              <ShieldAlert className="h-4 w-4 text-red-400" />
+              <AlertTitle className="text-red-400">Conflict of interest</AlertTitle>
+              <AlertDescription className="text-red-300">{conflictMessage}</AlertDescription>
+            </Alert>
+          )}
+          {submission && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+              {submission.members.length > 0 && (
+                <span>Members: {submission.members.join(', ')}</span>
+              )}
+              {submission.tags.map((tag) => (
+                <Badge key={tag} className="bg-cyan-500/20 text-cyan-400 border-cyan-500/30">{tag}</Badge>
+              ))}
+            </div>
+          )}
           <div className="space-y-2">
             <Label htmlFor="description" className="text-gray-200">Game Description</Label>
             <Textarea
@@ -500,40 +992,62 @@ function EvaluateSection({
         <CardHeader>
           <CardTitle className="text-gray-200">Criteria Scoring</CardTitle>
           <CardDescription className="text-gray-400">
-            Rate each criterion from 1-10
+            Rate each criterion on its scale · Local score: {localScore.weighted_score} / {localScore.max_possible_score} ({localScore.percentage_score.toFixed(1)}%)
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {(Object.keys(weights) as Array<keyof CriteriaWeights>).map((criterion) => (
-              <div key={criterion} className="space-y-3">
+            {criteria.map((criterion) => (
+              <div key={criterion.id} className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <Label className="text-gray-200">{CRITERIA_LABELS[criterion]}</Label>
+                  <Label className="text-gray-200">{criterion.label}</Label>
                   <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">
-                    {weights[criterion]}%
+                    {criterion.weight}%
                   </Badge>
                 </div>
+                {criterion.description && (
+                  <p className="text-xs text-gray-500">{criterion.description}</p>
+                )}
                 <div className="flex items-center gap-4">
                   <input
                     type="range"
-                    value={scores[criterion]}
-                    onChange={(e) => handleScoreChange(criterion, Number(e.target.value))}
-                    min={0}
-                    max={10}
+                    value={scores[criterion.id] ?? criterion.scaleMin}
+                    onChange={(e) => handleScoreChange(criterion.id, Number(e.target.value))}
+                    onClick={(e) => handleScoreChange(criterion.id, Number(e.currentTarget.value))}
+                    min={criterion.scaleMin}
+                    max={criterion.scaleMax}
                     step={1}
                     className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-600"
                   />
                   <div className="w-16 text-center">
-                    {scores[criterion] === 0 ? (
+                    {scores[criterion.id] === undefined ? (
                       <div className="text-sm text-red-400">Not set</div>
                     ) : (
                       <>
-                        <div className="text-lg font-bold text-white">{scores[criterion]}</div>
-                        <div className="text-xs text-gray-500">/ 10</div>
+                        <div className="text-lg font-bold text-white">{scores[criterion.id]}</div>
+                        <div className="text-xs text-gray-500">/ {criterion.scaleMax}</div>
                       </>
                     )}
                   </div>
                 </div>
+                {(criterion.levels || []).length > 0 && (
+                  <div className="space-y-1">
+                    {criterion.levels.map((level) => (
+                      <div
+                        key={`${level.min}-${level.max}`}
+                        className={cn(
+                          'flex gap-2 rounded px-2 py-1 text-xs',
+                          levelForScore(criterion, scores[criterion.id]) === level
+                            ? 'bg-purple-500/20 text-purple-200'
+                            : 'text-gray-500'
+                        )}
+                      >
+                        <span className="font-mono min-w-[40px]">{level.min}–{level.max}</span>
+                        <span>{level.descriptor}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -571,24 +1085,57 @@ function EvaluateSection({
         </CardContent>
       </Card>
 
-      {/* Generate Button */}
-      <Button
-        onClick={handleGenerateEvaluation}
-        disabled={loading || !gameName.trim() || !teamName.trim()}
-        className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 text-lg py-6"
-      >
-        {loading ? (
+      {/* Generate Buttons */}
+      <div className="flex gap-4">
+        <Button
+          onClick={handleGenerateEvaluation}
+          disabled={loading || !activeJudge || !submission}
+          className="flex-1 bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 text-lg py-6"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Generating Evaluation...
+            </>
+          ) : (
+            <>
+              <Sparkles className="h-5 w-5 mr-2" />
+              {editing ? 'Re-run AI Evaluation' : 'Generate AI Evaluation'}
+            </>
+          )}
+        </Button>
+        {editing ? (
           <>
-            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-            Generating Evaluation...
+            <Button
+              onClick={handleSaveWithoutAgent}
+              disabled={loading}
+              variant="outline"
+              className="border-gray-700 text-gray-200 hover:bg-gray-800 text-lg py-6"
+            >
+              <Save className="h-5 w-5 mr-2" />
+              Save Without Agent
+            </Button>
+            <Button
+              onClick={onEditDone}
+              disabled={loading}
+              variant="outline"
+              className="border-gray-700 text-gray-200 hover:bg-gray-800 text-lg py-6"
+            >
+              Cancel
+            </Button>
           </>
         ) : (
-          <>
-            <Sparkles className="h-5 w-5 mr-2" />
-            Generate AI Evaluation
-          </>
+          <Button
+            onClick={handleEnqueue}
+            disabled={loading || !activeJudge || !submission}
+            variant="outline"
+            className="border-gray-700 text-gray-200 hover:bg-gray-800 text-lg py-6"
+          >
+            <ListPlus className="h-5 w-5 mr-2" />
+            Add to Queue
+          </Button>
         )}
-      </Button>
+      </div>
 
       {/* Error Display */}
       {error && (
@@ -599,9 +1146,29 @@ function EvaluateSection({
         </Alert>
       )}
 
-      {/* Results Panel */}
-      {result && (
-        <div className="space-y-6">
+      {/* Schema Validation */}
+      {validationIssues.length > 0 && (
+        <Card className="bg-gray-900 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-gray-200 flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-400" />
+              Response Schema Check
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              {result
+                ? 'The agent response was accepted after converting these fields'
+                : 'The agent response was rejected because these fields do not match the schema'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ValidationIssuesTable issues={validationIssues} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Results Panel */}
+      {result && (
+        <div className="space-y-6">
           <Separator className="bg-gray-800" />
 
           <div className="flex items-center justify-between">
@@ -614,14 +1181,16 @@ function EvaluateSection({
                 <Save className="h-4 w-4 mr-2" />
                 Save
               </Button>
-              <Button
-                onClick={handleReset}
-                variant="outline"
-                className="border-gray-700 text-gray-200 hover:bg-gray-800"
-              >
-                <Edit className="h-4 w-4 mr-2" />
-                New Evaluation
-              </Button>
+              {!editing && (
+                <Button
+                  onClick={handleReset}
+                  variant="outline"
+                  className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  New Evaluation
+                </Button>
+              )}
             </div>
           </div>
 
@@ -642,6 +1211,27 @@ function EvaluateSection({
             </CardContent>
           </Card>
 
+          {/* Arithmetic Cross-Check */}
+          {discrepancies.length > 0 && (
+            <Alert className="bg-orange-500/10 border-orange-500/30">
+              <AlertTriangle className="h-4 w-4 text-orange-400" />
+              <AlertTitle className="text-orange-400">Agent arithmetic corrected</AlertTitle>
+              <AlertDescription className="text-orange-300">
+                <p className="mb-2">
+                  The agent's numbers differ from the local computation. Scores shown and saved use the local values.
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {discrepancies.map((d, index) => (
+                    <li key={index}>
+                      {d.criterion && `${criterionLabel(criteria, d.criterion)} · `}
+                      {DISCREPANCY_LABELS[d.field]}: agent {d.agentValue ?? 'missing'}, local {d.localValue}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Score Breakdown */}
           <Card className="bg-gray-900 border-gray-800">
             <CardHeader>
@@ -655,12 +1245,15 @@ function EvaluateSection({
                 {result.score_breakdown.map((item, index) => (
                   <div key={index} className="space-y-2">
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-gray-300">
-                        {CRITERIA_LABELS[item.criterion as keyof CriteriaWeights] || item.criterion}
+                      <span className="text-gray-300 flex items-center gap-2">
+                        {criterionLabel(criteria, item.criterion)}
+                        {discrepancies.some(d => d.criterion === item.criterion) && (
+                          <AlertTriangle className="h-4 w-4 text-orange-400" />
+                        )}
                       </span>
                       <div className="flex items-center gap-4">
                         <span className="text-gray-400">
-                          Raw: {item.raw_score}/10
+                          Raw: {item.raw_score}/{criterionScaleMax(criteria, item.criterion)}
                         </span>
                         <span className="text-gray-400">
                           Weight: {item.weight}%
@@ -671,7 +1264,7 @@ function EvaluateSection({
                       </div>
                     </div>
                     <Progress
-                      value={(item.weighted_score / (item.weight * 10)) * 100}
+                      value={(item.weighted_score / (item.weight * criterionScaleMax(criteria, item.criterion))) * 100}
                       className="h-2 bg-gray-800"
                     />
                   </div>
@@ -823,83 +1416,143 @@ function EvaluateSection({
 }
 
 // Leaderboard Section Component
-function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] }) {
+function LeaderboardSection({
+  evaluations,
+  criteria,
+  aggregationMethod,
+  onAggregationMethodChange,
+  normalization,
+  onNormalizationChange,
+  onEditSheet,
+  onModerate,
+  auditLog,
+  onUndoAudit,
+  ranking,
+  submissions,
+  conflictedSheets,
+  dashboardFilter,
+  onClearDashboardFilter,
+  eventSettings,
+  onImportSheets,
+  eventId,
+  publishSettings,
+  publishedResults,
+  onPublish,
+  onUnpublish,
+  awards,
+  readOnly
+}: {
+  evaluations: AggregatedEvaluation[]
+  criteria: CriterionDefinition[]
+  aggregationMethod: AggregationMethod
+  onAggregationMethodChange: (method: AggregationMethod) => void
+  normalization: NormalizationMethod
+  onNormalizationChange: (method: NormalizationMethod) => void
+  onEditSheet: (sheetId: string) => void
+  onModerate: (entry: AggregatedEvaluation, action: AuditAction, reason?: string) => void
+  auditLog: AuditEntry[]
+  onUndoAudit: (auditId: string) => void
+  ranking: RankingSettings
+  submissions: Submission[]
+  conflictedSheets: ConflictedSheet[]
+  dashboardFilter: DashboardFilter | null
+  onClearDashboardFilter: () => void
+  eventSettings: EventSettings
+  onImportSheets: (sheets: SavedEvaluation[]) => number
+  eventId: string
+  publishSettings: PublishSettings
+  publishedResults: PublicResults | null
+  onPublish: (settings: PublishSettings, resetLinks: boolean) => Promise<void>
+  onUnpublish: () => void
+  awards: AwardSettings
+  readOnly: boolean
+}) {
   const [sortBy, setSortBy] = useState<string>('total')
   const [filterCompliant, setFilterCompliant] = useState<boolean | null>(null)
   const [expandedRow, setExpandedRow] = useState<string | null>(null)
+  const [historySheetId, setHistorySheetId] = useState<string | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [disqualifyReason, setDisqualifyReason] = useState('')
+  const [showExport, setShowExport] = useState(false)
+  const [showPublish, setShowPublish] = useState(false)
+  const [presenting, setPresenting] = useState(false)
+
+  // Ranks come from the total score and tie-breakers whatever the display order
+  const ranked = rankEntries(evaluations.filter(isRanked), ranking, submissions)
+  const ranks = rankByKey(ranked)
+  const rankOf = (entry: AggregatedEvaluation) => ranks[entry.key]
 
   const sortedEvaluations = [...evaluations].sort((a, b) => {
     if (sortBy === 'total') {
-      return b.result.percentage_score - a.result.percentage_score
-    }
-    if (sortBy === 'ruleRelevance') {
-      const aRule = a.result.score_breakdown.find(s => s.criterion === 'ruleRelevance')
-      const bRule = b.result.score_breakdown.find(s => s.criterion === 'ruleRelevance')
-      return (bRule?.weighted_score || 0) - (aRule?.weighted_score || 0)
+      return compareEntries(a, b, ranking, submissions) || a.result.game_name.localeCompare(b.result.game_name)
     }
     const aScore = a.result.score_breakdown.find(s => s.criterion === sortBy)
     const bScore = b.result.score_breakdown.find(s => s.criterion === sortBy)
     return (bScore?.weighted_score || 0) - (aScore?.weighted_score || 0)
   })
 
-  const filteredEvaluations = filterCompliant === null
-    ? sortedEvaluations
-    : sortedEvaluations.filter(e => e.result.rule_compliance.compliant === filterCompliant)
-
-  const exportToCSV = () => {
-    const headers = [
-      'Rank',
-      'Game Name',
-      'Team',
-      'Total Score',
-      'Percentage',
-      'Compliant',
-      'Originality',
-      'AI Tool Usage',
-      'Playability',
-      'Polish',
-      'Completeness',
-      'Presentation',
-      'Technical Complexity',
-      'Accessibility',
-      'Rule Relevance'
-    ]
-
-    const rows = filteredEvaluations.map((e, index) => {
-      const breakdown = e.result.score_breakdown
-      return [
-        index + 1,
-        e.result.game_name,
-        e.result.team_name,
-        e.result.weighted_score,
-        e.result.percentage_score.toFixed(2),
-        e.result.rule_compliance.compliant ? 'Yes' : 'No',
-        breakdown.find(s => s.criterion === 'originality')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'aiToolUsage')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'playability')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'polish')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'completeness')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'presentation')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'technicalComplexity')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'accessibility')?.weighted_score || 0,
-        breakdown.find(s => s.criterion === 'ruleRelevance')?.weighted_score || 0
-      ]
-    })
+  const compliantFiltered = sortedEvaluations
+    .filter(e => filterCompliant === null || e.result.rule_compliance.compliant === filterCompliant)
+    .filter(e => !dashboardFilter || matchesDashboardFilter(e, dashboardFilter, criteria))
+
+  // Ranked entries first, then disqualified ones, then archived ones when shown
+  const rankedEvaluations = compliantFiltered.filter(isRanked)
+  const disqualifiedEvaluations = compliantFiltered.filter(isDisqualified)
+  const archivedEvaluations = compliantFiltered.filter(isArchivedEntry)
+  const filteredEvaluations = [
+    ...rankedEvaluations,
+    ...disqualifiedEvaluations,
+    ...(showArchived ? archivedEvaluations : [])
+  ]
+
+  const normalized = normalization !== 'none'
+
+  const lastAction = auditLog.length > 0 ? auditLog[auditLog.length - 1] : null
+
+  const handleDisqualify = (entry: AggregatedEvaluation) => {
+    const reason = disqualifyReason.trim()
+    if (!reason) return
+    onModerate(entry, 'disqualify', reason)
+    setDisqualifyReason('')
+  }
 
-    const csv = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n')
+  const handleDelete = (entry: AggregatedEvaluation) => {
+    if (!confirm(`Delete "${entry.result.game_name}" and all ${entry.sheets.length} of its score sheets? You can undo this from the audit log.`)) return
+    onModerate(entry, 'delete')
+    setExpandedRow(null)
+  }
 
-    const blob = new Blob([csv], { type: 'text/csv' })
+  const download = (data: BlobPart, type: string, fileName: string) => {
+    const blob = new Blob([data], { type })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `leaderboard-${new Date().toISOString().split('T')[0]}.csv`
+    a.download = fileName
     a.click()
     URL.revokeObjectURL(url)
   }
 
+  const teamReport = (entry: AggregatedEvaluation): TeamReport => ({
+    result: entry.result,
+    placement: isDisqualified(entry)
+      ? 'Disqualified'
+      : rankOf(entry) && `Ranked ${rankOf(entry).rank} of ${Object.keys(ranks).length}`,
+    judgeCount: entry.judgeCount
+  })
+
+  const exportReport = (entry: AggregatedEvaluation) => {
+    download(teamReportPdf(teamReport(entry), criteria, eventSettings), 'application/pdf', teamReportFileName(entry.result))
+  }
+
+  const exportAllReports = () => {
+    const entries = [...rankedEvaluations, ...disqualifiedEvaluations]
+    download(
+      teamReportsZip(entries.map(teamReport), criteria, eventSettings),
+      'application/zip',
+      `feedback-reports-${new Date().toISOString().split('T')[0]}.zip`
+    )
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -917,15 +1570,45 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
             </SelectTrigger>
             <SelectContent className="bg-gray-900 border-gray-700">
               <SelectItem value="total">Total Score</SelectItem>
-              <SelectItem value="ruleRelevance">Rule Relevance</SelectItem>
-              <SelectItem value="originality">Originality</SelectItem>
-              <SelectItem value="aiToolUsage">AI Tool Usage</SelectItem>
-              <SelectItem value="playability">Playability</SelectItem>
-              <SelectItem value="polish">Polish</SelectItem>
-              <SelectItem value="completeness">Completeness</SelectItem>
-              <SelectItem value="presentation">Presentation</SelectItem>
-              <SelectItem value="technicalComplexity">Technical Complexity</SelectItem>
-              <SelectItem value="accessibility">Accessibility</SelectItem>
+              {criteria.map(c => (
+                <SelectItem key={c.id} value={c.id}>{c.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-gray-200">Aggregate judges by:</Label>
+          <Select
+            value={aggregationMethod}
+            onValueChange={(value) => onAggregationMethodChange(value as AggregationMethod)}
+            disabled={readOnly}
+          >
+            <SelectTrigger className="w-[160px] bg-gray-900 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-900 border-gray-700">
+              {(Object.keys(AGGREGATION_LABELS) as AggregationMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>{AGGREGATION_LABELS[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-gray-200">Normalize judges:</Label>
+          <Select
+            value={normalization}
+            onValueChange={(value) => onNormalizationChange(value as NormalizationMethod)}
+            disabled={readOnly}
+          >
+            <SelectTrigger className="w-[200px] bg-gray-900 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-900 border-gray-700">
+              {(Object.keys(NORMALIZATION_LABELS) as NormalizationMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>{NORMALIZATION_LABELS[method]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -970,16 +1653,137 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
           </Button>
         </div>
 
+        {dashboardFilter && (
+          <Badge className="bg-cyan-500/20 text-cyan-400 border-cyan-500/30 gap-1">
+            {dashboardFilter.label}
+            <button type="button" onClick={onClearDashboardFilter} className="hover:text-white">
+              <XCircle className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="show-archived"
+            checked={showArchived}
+            onCheckedChange={(checked) => setShowArchived(checked === true)}
+          />
+          <Label htmlFor="show-archived" className="text-gray-200">
+            Show archived ({archivedEvaluations.length})
+          </Label>
+        </div>
+
         <Button
-          onClick={exportToCSV}
+          onClick={() => setShowExport(prev => !prev)}
           variant="outline"
           className="ml-auto border-gray-700 text-gray-200 hover:bg-gray-800"
         >
           <Download className="h-4 w-4 mr-2" />
-          Export CSV
+          Export
+        </Button>
+        <Button
+          onClick={() => setShowPublish(prev => !prev)}
+          variant="outline"
+          className="border-gray-700 text-gray-200 hover:bg-gray-800"
+        >
+          <Globe className="h-4 w-4 mr-2" />
+          Publish
+        </Button>
+        <Button
+          onClick={() => setPresenting(true)}
+          variant="outline"
+          disabled={ranked.length === 0}
+          className="border-gray-700 text-gray-200 hover:bg-gray-800"
+        >
+          <Presentation className="h-4 w-4 mr-2" />
+          Ceremony
+        </Button>
+        <Button
+          onClick={exportAllReports}
+          variant="outline"
+          disabled={rankedEvaluations.length + disqualifiedEvaluations.length === 0}
+          className="border-gray-700 text-gray-200 hover:bg-gray-800"
+        >
+          <FileText className="h-4 w-4 mr-2" />
+          Export Feedback PDFs (zip)
         </Button>
       </div>
 
+      {normalized && (
+        <p className="text-xs text-gray-500">
+          Judges with fewer than {MIN_NORMALIZED_SHEETS} sheets keep their raw scores. Under min-max and rank
+          normalization, so does a criterion a judge scored the same on every sheet.
+        </p>
+      )}
+
+      {showExport && (
+        <LeaderboardExportPanel
+          entries={[...rankedEvaluations, ...disqualifiedEvaluations]}
+          ranks={ranks}
+          criteria={criteria}
+          eventName={eventSettings.eventName}
+          normalized={normalized}
+          onImportSheets={onImportSheets}
+          onClose={() => setShowExport(false)}
+          readOnly={readOnly}
+        />
+      )}
+
+      {presenting && (
+        <CeremonyPresentation
+          ranked={ranked}
+          awards={computeAwards(evaluations.filter(isRanked), awards, criteria, ranking, submissions)}
+          eventSettings={eventSettings}
+          onExit={() => setPresenting(false)}
+        />
+      )}
+
+      {showPublish && (
+        <PublishResultsPanel
+          key={eventId}
+          eventId={eventId}
+          publishSettings={publishSettings}
+          publishedResults={publishedResults}
+          onPublish={onPublish}
+          onUnpublish={onUnpublish}
+          onClose={() => setShowPublish(false)}
+        />
+      )}
+
+      {conflictedSheets.length > 0 && (
+        <Alert className="bg-red-500/10 border-red-500/30">
+          <ShieldAlert className="h-4 w-4 text-red-400" />
+          <AlertTitle className="text-red-400">
+            {conflictedSheets.length} score {conflictedSheets.length === 1 ? 'sheet' : 'sheets'} excluded for conflicts of interest
+          </AlertTitle>
+          <AlertDescription className="text-red-300">
+            {conflictedSheets.map(({ sheet, reason }) => (
+              <div key={sheet.id}>{sheet.result.game_name}: {reason}</div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {lastAction && canUndo(auditLog, lastAction) && !readOnly && (
+        <Alert className="bg-gray-900 border-gray-700">
+          <History className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4 text-gray-300">
+            <span>
+              {AUDIT_ACTION_LABELS[lastAction.action]} "{lastAction.gameName}"
+              {lastAction.reason && ` (${lastAction.reason})`}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onUndoAudit(lastAction.id)}
+              className="border-gray-700 text-gray-200 hover:bg-gray-800"
+            >
+              Undo
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Leaderboard Table */}
       <Card className="bg-gray-900 border-gray-800">
         <CardContent className="p-0">
@@ -995,31 +1799,66 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
                     <TableHead className="text-gray-300 w-16">Rank</TableHead>
                     <TableHead className="text-gray-300">Game Name</TableHead>
                     <TableHead className="text-gray-300">Team</TableHead>
-                    <TableHead className="text-gray-300 text-right">Score</TableHead>
+                    <TableHead className="text-gray-300 text-center">Judges</TableHead>
+                    {normalized && (
+                      <TableHead className="text-gray-300 text-right">Raw</TableHead>
+                    )}
+                    <TableHead className="text-gray-300 text-right">{normalized ? 'Normalized' : 'Score'}</TableHead>
                     <TableHead className="text-gray-300 text-center">Compliance</TableHead>
                     <TableHead className="text-gray-300 w-12"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredEvaluations.map((evaluation, index) => (
+                  {filteredEvaluations.map((evaluation) => (
                     <>
                       <TableRow
-                        key={evaluation.id}
-                        className="border-gray-800 hover:bg-gray-800/50 cursor-pointer"
-                        onClick={() => setExpandedRow(expandedRow === evaluation.id ? null : evaluation.id)}
+                        key={evaluation.key}
+                        className={cn(
+                          'border-gray-800 hover:bg-gray-800/50 cursor-pointer',
+                          evaluation.status && 'opacity-50'
+                        )}
+                        onClick={() => {
+                          setExpandedRow(expandedRow === evaluation.key ? null : evaluation.key)
+                          setDisqualifyReason('')
+                        }}
                       >
                         <TableCell className="font-medium text-white">
                           <div className="flex items-center gap-2">
-                            {index === 0 && <Trophy className="h-5 w-5 text-yellow-400" />}
-                            {index === 1 && <Trophy className="h-5 w-5 text-gray-400" />}
-                            {index === 2 && <Trophy className="h-5 w-5 text-orange-400" />}
-                            <span>{index + 1}</span>
+                            {rankOf(evaluation)?.rank === 1 && <Trophy className="h-5 w-5 text-yellow-400" />}
+                            {rankOf(evaluation)?.rank === 2 && <Trophy className="h-5 w-5 text-gray-400" />}
+                            {rankOf(evaluation)?.rank === 3 && <Trophy className="h-5 w-5 text-orange-400" />}
+                            <span>
+                              {rankOf(evaluation)
+                                ? `${rankOf(evaluation).rank}${rankOf(evaluation).tied ? '=' : ''}`
+                                : isDisqualified(evaluation) ? 'DQ' : '—'}
+                            </span>
                           </div>
                         </TableCell>
                         <TableCell className="font-semibold text-white">
-                          {evaluation.result.game_name}
+                          <div className="flex flex-wrap items-center gap-2">
+                            {evaluation.result.game_name}
+                            {isDisqualified(evaluation) && (
+                              <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30">
+                                Disqualified{evaluation.status.reason && `: ${evaluation.status.reason}`}
+                              </Badge>
+                            )}
+                            {isArchivedEntry(evaluation) && (
+                              <Badge className="bg-gray-800 text-gray-300 border-gray-700">Archived</Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell className="text-gray-400">{evaluation.result.team_name}</TableCell>
+                        <TableCell className="text-center text-gray-300">{evaluation.judgeCount}</TableCell>
+                        {normalized && (
+                          <TableCell className="text-right">
+                            <div className="text-gray-300">
+                              {evaluation.rawResult.percentage_score.toFixed(1)}%
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {evaluation.rawResult.weighted_score} pts
+                            </div>
+                          </TableCell>
+                        )}
                         <TableCell className="text-right">
                           <div className="text-lg font-bold text-cyan-400">
                             {evaluation.result.percentage_score.toFixed(1)}%
@@ -1042,30 +1881,30 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
                           )}
                         </TableCell>
                         <TableCell>
-                          {expandedRow === evaluation.id ? (
+                          {expandedRow === evaluation.key ? (
                             <ChevronUp className="h-4 w-4 text-gray-400" />
                           ) : (
                             <ChevronDown className="h-4 w-4 text-gray-400" />
                           )}
                         </TableCell>
                       </TableRow>
-                      {expandedRow === evaluation.id && (
+                      {expandedRow === evaluation.key && (
                         <TableRow className="border-gray-800">
-                          <TableCell colSpan={6} className="bg-gray-950 p-6">
+                          <TableCell colSpan={normalized ? 8 : 7} className="bg-gray-950 p-6">
                             <div className="space-y-4">
                               <div className="grid grid-cols-3 gap-4">
                                 {evaluation.result.score_breakdown.map((item) => (
                                   <div key={item.criterion} className="space-y-1">
                                     <div className="flex items-center justify-between text-sm">
                                       <span className="text-gray-400">
-                                        {CRITERIA_LABELS[item.criterion as keyof CriteriaWeights] || item.criterion}
+                                        {criterionLabel(criteria, item.criterion)}
                                       </span>
                                       <span className="font-semibold text-cyan-400">
                                         {item.weighted_score}
                                       </span>
                                     </div>
                                     <Progress
-                                      value={(item.weighted_score / (item.weight * 10)) * 100}
+                                      value={(item.weighted_score / (item.weight * criterionScaleMax(criteria, item.criterion))) * 100}
                                       className="h-1 bg-gray-800"
                                     />
                                   </div>
@@ -1076,6 +1915,150 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
                                 <span className="font-semibold text-gray-300">Summary: </span>
                                 {evaluation.result.summary}
                               </div>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => exportReport(evaluation)}
+                                className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                              >
+                                <FileText className="h-4 w-4 mr-1" />
+                                Feedback PDF
+                              </Button>
+                              {evaluation.status && (
+                                <div className="text-xs text-gray-500">
+                                  {isDisqualified(evaluation) ? 'Disqualified' : 'Archived'}
+                                  {' '}{new Date(evaluation.status.changedAt).toLocaleString()}
+                                  {evaluation.status.changedBy && ` by ${evaluation.status.changedBy}`}
+                                </div>
+                              )}
+                              {!readOnly && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                  {evaluation.status ? (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => onModerate(evaluation, 'restore')}
+                                      className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                                    >
+                                      <ArchiveRestore className="h-4 w-4 mr-1" />
+                                      Restore to Ranking
+                                    </Button>
+                                  ) : (
+                                    <>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => onModerate(evaluation, 'archive')}
+                                        className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                                      >
+                                        <Archive className="h-4 w-4 mr-1" />
+                                        Archive
+                                      </Button>
+                                      <Input
+                                        value={disqualifyReason}
+                                        onChange={(e) => setDisqualifyReason(e.target.value)}
+                                        placeholder="Reason for disqualification..."
+                                        className="w-64 h-9 bg-gray-900 border-gray-700 text-white"
+                                      />
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleDisqualify(evaluation)}
+                                        disabled={!disqualifyReason.trim()}
+                                        className="border-orange-700 text-orange-400 hover:bg-orange-900/20"
+                                      >
+                                        <Ban className="h-4 w-4 mr-1" />
+                                        Disqualify
+                                      </Button>
+                                    </>
+                                  )}
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleDelete(evaluation)}
+                                    className="border-red-700 text-red-400 hover:bg-red-900/20"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-1" />
+                                    Delete
+                                  </Button>
+                                </div>
+                              )}
+                              <Separator className="bg-gray-800" />
+                              <div className="space-y-2">
+                                <h4 className="text-sm font-semibold text-gray-300">Judge Score Sheets</h4>
+                                {evaluation.sheets.map((sheet) => (
+                                  <div
+                                    key={sheet.id}
+                                    className="p-3 rounded-lg border border-gray-800 bg-gray-900 space-y-2"
+                                  >
+                                    <div className="flex items-center justify-between text-sm">
+                                      <span className="font-medium text-white flex items-center gap-2">
+                                        {sheet.judgeName || 'Unassigned judge'}
+                                        <Badge className="bg-gray-800 text-gray-300 border-gray-700">
+                                          Rev {sheet.revision || 1}
+                                        </Badge>
+                                        {sheet.scoreDiscrepancies && sheet.scoreDiscrepancies.length > 0 && (
+                                          <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30">
+                                            {sheet.scoreDiscrepancies.length} agent math {sheet.scoreDiscrepancies.length === 1 ? 'fix' : 'fixes'}
+                                          </Badge>
+                                        )}
+                                      </span>
+                                      <div className="flex items-center gap-2">
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => setHistorySheetId(historySheetId === sheet.id ? null : sheet.id)}
+                                          className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                                        >
+                                          <History className="h-4 w-4 mr-1" />
+                                          History
+                                        </Button>
+                                        {!readOnly && (
+                                          <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => onEditSheet(sheet.id)}
+                                            className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                                          >
+                                            <Edit className="h-4 w-4 mr-1" />
+                                            Edit
+                                          </Button>
+                                        )}
+                                        <span className="font-semibold text-cyan-400">
+                                          {sheet.result.percentage_score.toFixed(1)}%
+                                        </span>
+                                      </div>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                      {sheet.result.score_breakdown.map((item) => (
+                                        <Badge
+                                          key={item.criterion}
+                                          className="bg-gray-800 text-gray-300 border-gray-700"
+                                        >
+                                          {criterionLabel(criteria, item.criterion)}: {item.raw_score}/{criterionScaleMax(criteria, item.criterion)}
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                      {new Date(sheet.savedAt).toLocaleString()}
+                                    </div>
+                                    {historySheetId === sheet.id && (
+                                      <RevisionHistory evaluation={sheet} />
+                                    )}
+                                  </div>
+                                ))}
+                                {conflictedSheets
+                                  .filter(c => evaluationKey(c.sheet) === evaluation.key)
+                                  .map(({ sheet, reason }) => (
+                                    <div
+                                      key={sheet.id}
+                                      className="p-3 rounded-lg border border-red-500/30 bg-red-500/5 flex items-center justify-between text-sm"
+                                    >
+                                      <span className="text-gray-400 line-through">{sheet.judgeName || 'Unassigned judge'}</span>
+                                      <span className="text-red-400">Excluded · {reason}</span>
+                                    </div>
+                                  ))}
+                              </div>
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1088,6 +2071,138 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
           )}
         </CardContent>
       </Card>
+
+      <JudgeBiasReport
+        evaluations={evaluations.flatMap(e => e.sheets)}
+        criteria={criteria}
+        normalization={normalization}
+      />
+
+      <AuditLogPanel entries={auditLog} onUndo={onUndoAudit} readOnly={readOnly} />
+    </div>
+  )
+}
+
+// Awards Section Component
+function AwardsSection({
+  evaluations,
+  awards,
+  criteria,
+  ranking,
+  submissions,
+  onManualWinnerChange,
+  readOnly
+}: {
+  evaluations: AggregatedEvaluation[]
+  awards: AwardSettings
+  criteria: CriterionDefinition[]
+  ranking: RankingSettings
+  submissions: Submission[]
+  onManualWinnerChange: (categoryId: string, entryKey: string) => void
+  readOnly: boolean
+}) {
+  // Disqualified and archived entries can't win awards
+  const results = computeAwards(evaluations.filter(isRanked), awards, criteria, ranking, submissions)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2">Awards</h2>
+        <p className="text-gray-400">Category winners computed from the saved evaluations</p>
+      </div>
+
+      {results.length === 0 ? (
+        <Card className="bg-gray-900 border-gray-800">
+          <CardContent className="text-center py-12 text-gray-500">
+            No award categories yet. Add them in Settings.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {results.map(({ category, winner, contenders, note }) => (
+            <Card key={category.id} className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-lg text-gray-200 flex items-center gap-2">
+                  <Award className="h-5 w-5 text-yellow-400" />
+                  {category.name}
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  {category.description || AWARD_FORMULA_LABELS[category.formula]}
+                </CardDescription>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">
+                    {category.formula === 'criterion'
+                      ? criterionLabel(criteria, category.criterionId)
+                      : AWARD_FORMULA_LABELS[category.formula]}
+                  </Badge>
+                  {category.compliantOnly && (
+                    <Badge className="bg-gray-800 text-gray-300 border-gray-700">Compliant only</Badge>
+                  )}
+                  {category.requiredTag?.trim() && (
+                    <Badge className="bg-gray-800 text-gray-300 border-gray-700">Tag: {category.requiredTag.trim()}</Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {winner ? (
+                  <div className="p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2 text-xl font-bold text-white">
+                        <Trophy className="h-5 w-5 text-yellow-400" />
+                        {winner.entry.result.game_name}
+                      </div>
+                      <div className="text-sm text-gray-400">{winner.entry.result.team_name}</div>
+                    </div>
+                    {winner.score !== null && (
+                      <div className="text-2xl font-bold text-cyan-400">{winner.score.toFixed(1)}%</div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="p-4 rounded-lg border border-gray-800 bg-gray-950 text-gray-500">{note}</div>
+                )}
+
+                {category.formula === 'manual' ? (
+                  !readOnly && contenders.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-gray-200">Winner</Label>
+                      <Select
+                        value={winner?.entry.key || ''}
+                        onValueChange={(value) => onManualWinnerChange(category.id, value)}
+                      >
+                        <SelectTrigger className="bg-gray-950 border-gray-700 text-white">
+                          <SelectValue placeholder="Pick the winning game..." />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-900 border-gray-700">
+                          {contenders.map(({ entry }) => (
+                            <SelectItem key={entry.key} value={entry.key}>
+                              {entry.result.game_name} ({entry.result.team_name})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )
+                ) : (
+                  contenders.length > 1 && (
+                    <div className="space-y-1">
+                      <div className="text-sm font-semibold text-gray-300">Runners-up</div>
+                      {contenders.slice(1, 4).map(({ entry, score }) => (
+                        <div key={entry.key} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-300">
+                            {entry.result.game_name}
+                            <span className="text-gray-500"> · {entry.result.team_name}</span>
+                          </span>
+                          <span className="text-gray-400">{score.toFixed(1)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -1096,32 +2211,84 @@ function LeaderboardSection({ evaluations }: { evaluations: SavedEvaluation[] })
 function SettingsSection({
   eventSettings,
   onEventSettingsChange,
-  weights,
-  onWeightsChange
+  criteria,
+  onCriteriaChange,
+  judges,
+  onJudgesChange,
+  ranking,
+  onRankingChange,
+  awards,
+  onAwardsChange,
+  submissions,
+  readOnly
 }: {
   eventSettings: EventSettings
   onEventSettingsChange: (settings: EventSettings) => void
-  weights: CriteriaWeights
-  onWeightsChange: (weights: CriteriaWeights) => void
+  criteria: CriterionDefinition[]
+  onCriteriaChange: (criteria: CriterionDefinition[]) => void
+  judges: Judge[]
+  onJudgesChange: (judges: Judge[]) => void
+  ranking: RankingSettings
+  onRankingChange: (ranking: RankingSettings) => void
+  awards: AwardSettings
+  onAwardsChange: (awards: AwardSettings) => void
+  submissions: Submission[]
+  readOnly: boolean
 }) {
   const [localSettings, setLocalSettings] = useState(eventSettings)
-  const [localWeights, setLocalWeights] = useState(weights)
+  const [localCriteria, setLocalCriteria] = useState(criteria)
+  const [localJudges, setLocalJudges] = useState(judges)
+  const [localRanking, setLocalRanking] = useState(ranking)
+  const [localAwards, setLocalAwards] = useState(awards)
   const [newRule, setNewRule] = useState('')
+  const [newJudge, setNewJudge] = useState('')
 
-  const totalWeight = Object.values(localWeights).reduce((sum, w) => sum + w, 0)
+  const weightTotal = totalWeight(localCriteria)
+  const criteriaErrors = validateCriteria(localCriteria)
+  const awardErrors = validateAwards(localAwards.categories, localCriteria)
 
   const handleSave = () => {
-    if (totalWeight !== 100) {
-      alert('Warning: Total weight must equal 100%')
+    if (criteriaErrors.length > 0) {
+      alert(`Warning: ${criteriaErrors[0]}`)
+      return
+    }
+    if (localJudges.length === 0) {
+      alert('Warning: Add at least one judge to the panel')
+      return
+    }
+    if (awardErrors.length > 0) {
+      alert(`Warning: ${awardErrors[0]}`)
       return
     }
     onEventSettingsChange(localSettings)
-    onWeightsChange(localWeights)
-    setLocalStorage('eventSettings', localSettings)
-    setLocalStorage('criteriaWeights', localWeights)
+    onCriteriaChange(localCriteria)
+    onJudgesChange(localJudges)
+    // Tie-breakers on criteria removed above no longer apply
+    onRankingChange({
+      ...localRanking,
+      tieBreakers: localRanking.tieBreakers.filter(t =>
+        t.kind !== 'criterion' || localCriteria.some(c => c.id === t.criterionId)
+      )
+    })
+    onAwardsChange(localAwards)
     alert('Settings saved successfully!')
   }
 
+  const handleAddJudge = () => {
+    if (newJudge.trim()) {
+      setLocalJudges(prev => [...prev, { id: `judge-${Date.now()}`, name: newJudge.trim() }])
+      setNewJudge('')
+    }
+  }
+
+  const handleRemoveJudge = (judgeId: string) => {
+    setLocalJudges(prev => prev.filter(j => j.id !== judgeId))
+  }
+
+  const updateJudge = (judgeId: string, patch: Partial<Judge>) => {
+    setLocalJudges(prev => prev.map(j => j.id === judgeId ? { ...j, ...patch } : j))
+  }
+
   const handleAddRule = () => {
     if (newRule.trim()) {
       setLocalSettings(prev => ({
@@ -1140,10 +2307,13 @@ function SettingsSection({
   }
 
   return (
-    <div className="space-y-6">
+    // Archived events keep their configuration visible but locked
+    <fieldset disabled={readOnly} className="space-y-6 min-w-0">
       <div>
         <h2 className="text-3xl font-bold text-white mb-2">Settings</h2>
-        <p className="text-gray-400">Configure event rules and scoring criteria</p>
+        <p className="text-gray-400">
+          {readOnly ? 'This event is archived; its configuration is read-only' : 'Configure event rules and scoring criteria'}
+        </p>
       </div>
 
       {/* Event Settings */}
@@ -1209,36 +2379,89 @@ function SettingsSection({
         </CardContent>
       </Card>
 
-      {/* Criteria Weights */}
+      {/* Judge Panel */}
       <Card className="bg-gray-900 border-gray-800">
         <CardHeader>
-          <CardTitle className="text-gray-200">Criteria Weights</CardTitle>
+          <CardTitle className="text-gray-200">Judge Panel</CardTitle>
           <CardDescription className="text-gray-400">
-            Configure the percentage weight for each criterion (must total 100%)
+            Each judge submits their own score sheet per game
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {(Object.keys(localWeights) as Array<keyof CriteriaWeights>).map((criterion) => (
-              <div key={criterion} className="space-y-2">
-                <Label className="text-gray-200">{CRITERIA_LABELS[criterion]}</Label>
+          <div className="space-y-2">
+            {localJudges.map((judge) => (
+              <div key={judge.id} className="p-3 rounded bg-gray-950 border border-gray-700 space-y-3">
                 <div className="flex items-center gap-2">
-                  <Input
-                    type="number"
-                    min="0"
-                    max="100"
-                    value={localWeights[criterion]}
-                    onChange={(e) => setLocalWeights(prev => ({
-                      ...prev,
-                      [criterion]: Math.max(0, Math.min(100, Number(e.target.value)))
-                    }))}
-                    className="bg-gray-950 border-gray-700 text-white"
+                  <div className="flex-1 text-gray-300">{judge.name}</div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemoveJudge(judge.id)}
+                    className="border-red-700 text-red-400 hover:bg-red-900/20"
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${judge.id}-available`}
+                      checked={!judge.unavailable}
+                      onCheckedChange={(checked) => updateJudge(judge.id, { unavailable: checked !== true })}
+                    />
+                    <Label htmlFor={`${judge.id}-available`} className="text-gray-200">Available</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-gray-200">Max games</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={judge.maxAssignments || ''}
+                      onChange={(e) => updateJudge(judge.id, { maxAssignments: Math.max(0, Number(e.target.value)) || undefined })}
+                      placeholder="No limit"
+                      className="w-24 bg-gray-900 border-gray-700 text-white"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-gray-200">Conflicts of Interest</Label>
+                  <ConflictDeclarationsEditor
+                    conflicts={judge.conflicts || []}
+                    submissions={submissions}
+                    onChange={(conflicts) => updateJudge(judge.id, { conflicts })}
                   />
-                  <span className="text-gray-400 min-w-[24px]">%</span>
                 </div>
               </div>
             ))}
           </div>
+          <div className="flex gap-2">
+            <Input
+              value={newJudge}
+              onChange={(e) => setNewJudge(e.target.value)}
+              placeholder="Add a judge..."
+              className="bg-gray-950 border-gray-700 text-white"
+              onKeyDown={(e) => e.key === 'Enter' && handleAddJudge()}
+            />
+            <Button
+              onClick={handleAddJudge}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Criteria */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-gray-200">Judging Criteria</CardTitle>
+          <CardDescription className="text-gray-400">
+            Define each criterion, its scoring scale and its percentage weight (weights must total 100%)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <CriteriaEditor criteria={localCriteria} onChange={setLocalCriteria} />
 
           {/* Weight Validator */}
           <div className="pt-4">
@@ -1246,26 +2469,35 @@ function SettingsSection({
               <span className="text-gray-300 font-semibold">Total Weight:</span>
               <span className={cn(
                 'text-xl font-bold',
-                totalWeight === 100 ? 'text-green-400' : 'text-red-400'
+                weightTotal === 100 ? 'text-green-400' : 'text-red-400'
               )}>
-                {totalWeight}%
+                {weightTotal}%
               </span>
             </div>
             <Progress
-              value={totalWeight}
+              value={weightTotal}
               className={cn(
                 'h-3',
-                totalWeight === 100 ? 'bg-green-900/20' : 'bg-red-900/20'
+                weightTotal === 100 ? 'bg-green-900/20' : 'bg-red-900/20'
               )}
             />
-            {totalWeight !== 100 && (
+            {weightTotal !== 100 && (
               <Alert className="mt-4 bg-orange-500/10 border-orange-500/30">
                 <AlertCircle className="h-4 w-4 text-orange-400" />
                 <AlertTitle className="text-orange-400">Weight Validation</AlertTitle>
                 <AlertDescription className="text-orange-300">
-                  Total weight must equal 100%. Current total: {totalWeight}%
-                  {totalWeight < 100 && ` (${100 - totalWeight}% remaining)`}
-                  {totalWeight > 100 && ` (${totalWeight - 100}% over)`}
+                  Total weight must equal 100%. Current total: {weightTotal}%
+                  {weightTotal < 100 && ` (${100 - weightTotal}% remaining)`}
+                  {weightTotal > 100 && ` (${weightTotal - 100}% over)`}
+                </AlertDescription>
+              </Alert>
+            )}
+            {weightTotal === 100 && criteriaErrors.length > 0 && (
+              <Alert className="mt-4 bg-orange-500/10 border-orange-500/30">
+                <AlertCircle className="h-4 w-4 text-orange-400" />
+                <AlertTitle className="text-orange-400">Criteria Validation</AlertTitle>
+                <AlertDescription className="text-orange-300">
+                  {criteriaErrors.join(' · ')}
                 </AlertDescription>
               </Alert>
             )}
@@ -1273,54 +2505,687 @@ function SettingsSection({
         </CardContent>
       </Card>
 
+      {/* Ranking */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-gray-200">Ranking</CardTitle>
+          <CardDescription className="text-gray-400">
+            How equal scores are separated and numbered on the leaderboard and in exports
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RankingEditor ranking={localRanking} criteria={localCriteria} onChange={setLocalRanking} />
+        </CardContent>
+      </Card>
+
+      {/* Awards */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-gray-200">Award Categories</CardTitle>
+          <CardDescription className="text-gray-400">
+            Awards beyond the overall ranking, each with its own formula and eligibility rules
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <AwardCategoriesEditor awards={localAwards} criteria={localCriteria} onChange={setLocalAwards} />
+          {awardErrors.length > 0 && (
+            <Alert className="bg-orange-500/10 border-orange-500/30">
+              <AlertCircle className="h-4 w-4 text-orange-400" />
+              <AlertTitle className="text-orange-400">Award Validation</AlertTitle>
+              <AlertDescription className="text-orange-300">
+                {awardErrors.join(' · ')}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Save Button */}
       <Button
         onClick={handleSave}
-        disabled={totalWeight !== 100}
+        disabled={criteriaErrors.length > 0}
         className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 text-lg py-6"
       >
         <Save className="h-5 w-5 mr-2" />
         Save Configuration
       </Button>
+    </fieldset>
+  )
+}
+
+// Events Section Component
+function EventsSection({
+  events,
+  activeEventId,
+  locked,
+  onSwitch,
+  onCreate,
+  onClone,
+  onArchiveChange,
+  onBackup,
+  onRestore
+}: {
+  events: JamEvent[]
+  activeEventId: string
+  locked: boolean
+  onSwitch: (eventId: string) => void
+  onCreate: (name: string) => void
+  onClone: (eventId: string) => void
+  onArchiveChange: (eventId: string, archived: boolean) => void
+  onBackup: (eventId: string) => void
+  onRestore: (backup: EventBackup, plan: RestorePlan) => Promise<void>
+}) {
+  const [newEventName, setNewEventName] = useState('')
+  const [counts, setCounts] = useState<Record<string, { submissions: number; evaluations: number }>>({})
+
+  useEffect(() => {
+    Promise.all(events.map(async (event) => {
+      const [submissions, evaluations] = await Promise.all([
+        readEventRecord(event.id, 'submissions', []),
+        readEventRecord(event.id, 'evaluations', [])
+      ])
+      return [event.id, { submissions: submissions.length, evaluations: evaluations.length }] as const
+    })).then(entries => setCounts(Object.fromEntries(entries)))
+  }, [events])
+
+  const handleCreate = () => {
+    if (newEventName.trim()) {
+      onCreate(newEventName.trim())
+      setNewEventName('')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2">Events</h2>
+        <p className="text-gray-400">Each jam keeps its own settings, criteria, judges, submissions and evaluations</p>
+      </div>
+
+      {locked && (
+        <Alert className="bg-orange-500/10 border-orange-500/30">
+          <AlertCircle className="h-4 w-4 text-orange-400" />
+          <AlertTitle className="text-orange-400">Queue running</AlertTitle>
+          <AlertDescription className="text-orange-300">
+            Wait for the evaluation queue to finish or cancel it before switching events.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* New Event */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-gray-200">New Event</CardTitle>
+          <CardDescription className="text-gray-400">
+            Starts with the default criteria and an empty registry; clone an event to reuse its configuration
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-2">
+            <Input
+              value={newEventName}
+              onChange={(e) => setNewEventName(e.target.value)}
+              placeholder="Event name..."
+              className="bg-gray-950 border-gray-700 text-white"
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            />
+            <Button
+              onClick={handleCreate}
+              disabled={locked}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Event List */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                  <TableHead className="text-gray-300">Event</TableHead>
+                  <TableHead className="text-gray-300">Created</TableHead>
+                  <TableHead className="text-gray-300">Submissions</TableHead>
+                  <TableHead className="text-gray-300">Score Sheets</TableHead>
+                  <TableHead className="text-gray-300">Status</TableHead>
+                  <TableHead className="text-gray-300"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortEvents(events).map((event) => {
+                  const archived = isArchived(event)
+                  const isActive = event.id === activeEventId
+                  return (
+                    <TableRow key={event.id} className="border-gray-800 hover:bg-gray-800/50">
+                      <TableCell>
+                        <div className="font-semibold text-white">{event.settings.eventName}</div>
+                        <div className="text-xs text-gray-500">{event.settings.themeDescription}</div>
+                      </TableCell>
+                      <TableCell className="text-gray-400">
+                        {new Date(event.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-gray-400">
+                        {counts[event.id]?.submissions ?? '–'}
+                      </TableCell>
+                      <TableCell className="text-gray-400">
+                        {counts[event.id]?.evaluations ?? '–'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {isActive && (
+                            <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">Active</Badge>
+                          )}
+                          {archived ? (
+                            <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">Archived</Badge>
+                          ) : (
+                            <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Open</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2 justify-end">
+                          {!isActive && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onSwitch(event.id)}
+                              disabled={locked}
+                              className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                            >
+                              Open
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onClone(event.id)}
+                            disabled={locked}
+                            className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                          >
+                            <Copy className="h-4 w-4 mr-1" />
+                            Clone
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onBackup(event.id)}
+                            className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                          >
+                            <Download className="h-4 w-4 mr-1" />
+                            Back Up
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onArchiveChange(event.id, !archived)}
+                            disabled={locked && isActive}
+                            className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                          >
+                            {archived ? <ArchiveRestore className="h-4 w-4 mr-1" /> : <Archive className="h-4 w-4 mr-1" />}
+                            {archived ? 'Restore' : 'Archive'}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <BackupRestorePanel
+        events={events}
+        activeEventId={activeEventId}
+        locked={locked}
+        onRestore={onRestore}
+      />
     </div>
   )
 }
 
 // Main App Component
 export default function Home() {
-  const [activeSection, setActiveSection] = useState<'dashboard' | 'evaluate' | 'leaderboard' | 'settings'>('dashboard')
+  const [activeSection, setActiveSection] = useState<'dashboard' | 'events' | 'submissions' | 'evaluate' | 'queue' | 'assignments' | 'leaderboard' | 'compare' | 'awards' | 'analytics' | 'settings'>('dashboard')
+  const [events, setEvents] = useState<JamEvent[]>([])
+  const [activeEventId, setActiveEventId] = useState('')
   const [evaluations, setEvaluations] = useState<SavedEvaluation[]>([])
-  const [eventSettings, setEventSettings] = useState<EventSettings>({
-    eventName: 'AI Game Jam 2024',
-    themeDescription: 'Artistic Expression through AI',
-    rules: [
-      'Game must use at least 2 AI tools',
-      'Game must be playable in browser',
-      'Must align with the Artistic Expression theme'
-    ]
+  const [criteria, setCriteria] = useState<CriterionDefinition[]>(DEFAULT_CRITERIA)
+  const [judges, setJudges] = useState<Judge[]>(DEFAULT_JUDGES)
+  const [activeJudgeId, setActiveJudgeId] = useState<string>(DEFAULT_JUDGES[0].id)
+  const [aggregationMethod, setAggregationMethod] = useState<AggregationMethod>('mean')
+  const [normalization, setNormalization] = useState<NormalizationMethod>('none')
+  const [ranking, setRanking] = useState<RankingSettings>(DEFAULT_RANKING)
+  const [awards, setAwards] = useState<AwardSettings>(DEFAULT_AWARDS)
+  const [submissions, setSubmissions] = useState<Submission[]>([])
+  const [assignmentPlan, setAssignmentPlan] = useState<AssignmentPlan>(DEFAULT_ASSIGNMENT_PLAN)
+  const [storageError, setStorageError] = useState<string | null>(null)
+  const [editingEvaluation, setEditingEvaluation] = useState<SavedEvaluation | null>(null)
+  const [entryStatuses, setEntryStatuses] = useState<Record<string, EntryStatus>>({})
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([])
+  const [publishSettings, setPublishSettings] = useState<PublishSettings>(DEFAULT_PUBLISH_SETTINGS)
+  const [publishedResults, setPublishedResults] = useState<PublicResults | null>(null)
+  const [dashboardFilter, setDashboardFilter] = useState<DashboardFilter | null>(null)
+  const [comparedKeys, setComparedKeys] = useState<string[]>([])
+  const evaluationsRef = useRef<SavedEvaluation[]>([])
+  const loadingEventRef = useRef('')
+
+  const activeEvent = events.find(e => e.id === activeEventId)
+  const eventSettings = activeEvent?.settings || DEFAULT_EVENT_SETTINGS
+  const readOnly = isArchived(activeEvent)
+
+  // The registry owns the names, so renaming a submission renames its sheets
+  const namedEvaluations = withSubmissionNames(evaluations, submissions)
+
+  // Sheets saved despite a declared conflict stay stored but don't count
+  const conflictedSheets = findConflictedSheets(namedEvaluations, judges, submissions)
+  const countedEvaluations = namedEvaluations.filter(e => !conflictedSheets.some(c => c.sheet.id === e.id))
+
+  const aggregatedEvaluations = withEntryStatuses(
+    aggregateEvaluations(countedEvaluations, aggregationMethod, criteria, normalization),
+    entryStatuses
+  )
+
+  const queue = useEvaluationQueue({
+    // Each event's queue is loaded with the rest of its data
+    loadItems: () => [],
+    onItemsChange: (items) => saveEventData('evaluationQueue', items),
+    buildRequest: (item) => {
+      const submission = submissions.find(s => s.id === item.submissionId)
+      if (!submission) return null
+      return {
+        submission,
+        description: item.description,
+        scores: item.scores,
+        criteria,
+        rules: eventSettings.rules,
+        complianceNotes: item.complianceNotes
+      }
+    },
+    onSucceeded: (item, outcome) => {
+      const author = { id: item.judgeId, name: item.judgeName }
+      handleSaveEvaluation({
+        id: `eval-${Date.now()}-${item.id}`,
+        result: outcome.result,
+        metadata: outcome.metadata,
+        savedAt: new Date().toISOString(),
+        judgeId: item.judgeId,
+        judgeName: item.judgeName,
+        scores: item.scores,
+        submissionId: item.submissionId,
+        scoreDiscrepancies: outcome.discrepancies,
+        description: item.description,
+        complianceNotes: item.complianceNotes
+      }, author, 'agent')
+    }
   })
-  const [weights, setWeights] = useState<CriteriaWeights>(DEFAULT_WEIGHTS)
 
-  // Load from localStorage on mount
-  useEffect(() => {
-    const savedEvaluations = getLocalStorage<SavedEvaluation[]>('evaluations', [])
-    const savedSettings = getLocalStorage<EventSettings>('eventSettings', eventSettings)
-    const savedWeights = getLocalStorage<CriteriaWeights>('criteriaWeights', DEFAULT_WEIGHTS)
+  // Switching events mid-run would write results into the wrong event
+  const eventLocked = queue.runState !== 'idle'
 
-    setEvaluations(savedEvaluations)
-    setEventSettings(savedSettings)
-    setWeights(savedWeights)
-  }, [])
+  const reportWrite = (result: StorageWriteResult) => {
+    setStorageError(result.success ? null : result.error)
+  }
+
+  const saveEventData = <K extends EventScopedKey>(key: K, value: EventRecords[K]) => {
+    if (!activeEventId) return
+    writeEventRecord(activeEventId, key, value).then(reportWrite)
+  }
+
+  const replaceEvaluations = (next: SavedEvaluation[]) => {
+    evaluationsRef.current = next
+    setEvaluations(next)
+  }
+
+  const loadEventData = async (eventId: string) => {
+    loadingEventRef.current = eventId
+    const [
+      savedEvaluations,
+      savedCriteria,
+      savedJudges,
+      savedActiveJudgeId,
+      savedAggregationMethod,
+      savedNormalization,
+      savedRanking,
+      savedAwards,
+      savedSubmissions,
+      savedQueue,
+      savedAssignmentPlan,
+      savedEntryStatuses,
+      savedAuditLog,
+      savedPublishSettings,
+      savedPublishedResults
+    ] = await Promise.all([
+      readEventRecord(eventId, 'evaluations', []),
+      readEventRecord(eventId, 'criteria', DEFAULT_CRITERIA),
+      readEventRecord(eventId, 'judges', DEFAULT_JUDGES),
+      readEventRecord(eventId, 'activeJudgeId', ''),
+      readEventRecord(eventId, 'aggregationMethod', 'mean'),
+      readEventRecord(eventId, 'normalization', 'none'),
+      readEventRecord(eventId, 'ranking', DEFAULT_RANKING),
+      readEventRecord(eventId, 'awards', DEFAULT_AWARDS),
+      readEventRecord(eventId, 'submissions', []),
+      readEventRecord(eventId, 'evaluationQueue', []),
+      readEventRecord(eventId, 'assignmentPlan', DEFAULT_ASSIGNMENT_PLAN),
+      readEventRecord(eventId, 'entryStatuses', {}),
+      readEventRecord(eventId, 'auditLog', []),
+      readEventRecord(eventId, 'publishSettings', DEFAULT_PUBLISH_SETTINGS),
+      readEventRecord(eventId, 'publishedResults', null)
+    ])
+    // A newer switch started while this one was reading
+    if (loadingEventRef.current !== eventId) return
+
+    replaceEvaluations(savedEvaluations)
+    setCriteria(savedCriteria)
+    setJudges(savedJudges)
+    setActiveJudgeId(savedActiveJudgeId || savedJudges[0]?.id || '')
+    setAggregationMethod(savedAggregationMethod)
+    setNormalization(savedNormalization)
+    setRanking(savedRanking)
+    setAwards(savedAwards)
+    setSubmissions(savedSubmissions)
+    setAssignmentPlan(savedAssignmentPlan)
+    setEntryStatuses(savedEntryStatuses)
+    setAuditLog(savedAuditLog)
+    setPublishSettings(savedPublishSettings)
+    setPublishedResults(savedPublishedResults)
+    queue.load(savedQueue)
+  }
+
+  // Effects outlive renders, so they read the latest loader through a ref
+  const loadEventDataRef = useRef(loadEventData)
+  loadEventDataRef.current = loadEventData
 
-  // Save evaluations to localStorage when they change
+  // Load from storage on mount
   useEffect(() => {
-    const interval = setInterval(() => {
-      const savedEvaluations = getLocalStorage<SavedEvaluation[]>('evaluations', [])
-      setEvaluations(savedEvaluations)
-    }, 1000)
-    return () => clearInterval(interval)
+    const load = async () => {
+      try {
+        const savedEvents = await readRecord('events', [])
+        const savedActiveEventId = await readRecord('activeEventId', '')
+        const initialEvent = savedEvents.find(e => e.id === savedActiveEventId) || sortEvents(savedEvents)[0]
+
+        setEvents(savedEvents)
+        if (!initialEvent) return
+        setActiveEventId(initialEvent.id)
+        await loadEventDataRef.current(initialEvent.id)
+      } catch (error) {
+        setStorageError(error instanceof Error ? error.message : String(error))
+      }
+    }
+    load()
   }, [])
 
+  // Pick up changes saved by other tabs
+  useEffect(() => {
+    return subscribe((change) => {
+      if (!change.external) return
+      if (change.key === 'events') {
+        readRecord('events', []).then(setEvents)
+      } else if (activeEventId && EVENT_SCOPED_KEYS.some(key => scopedKey(activeEventId, key) === change.key)) {
+        loadEventDataRef.current(activeEventId)
+      }
+    })
+  }, [activeEventId])
+
+  const updateEvents = (next: JamEvent[]) => {
+    setEvents(next)
+    writeRecord('events', next).then(reportWrite)
+  }
+
+  const handleSwitchEvent = (eventId: string) => {
+    if (eventLocked) return
+    setEditingEvaluation(null)
+    setDashboardFilter(null)
+    setComparedKeys([])
+    setActiveEventId(eventId)
+    writeRecord('activeEventId', eventId).then(reportWrite)
+    loadEventData(eventId)
+    if (isArchived(events.find(e => e.id === eventId)) && (activeSection === 'evaluate' || activeSection === 'queue')) {
+      setActiveSection('dashboard')
+    }
+  }
+
+  const handleCreateEvent = (name: string) => {
+    const event = createEvent({ ...DEFAULT_EVENT_SETTINGS, eventName: name })
+    updateEvents([...events, event])
+    handleSwitchEvent(event.id)
+  }
+
+  const handleCloneEvent = async (eventId: string) => {
+    const source = events.find(e => e.id === eventId)
+    if (!source) return
+    const clone = cloneEvent(source)
+    for (const key of TEMPLATE_KEYS) {
+      const value = await readEventRecord(source.id, key, undefined)
+      if (value !== undefined) reportWrite(await writeEventRecord(clone.id, key, value))
+    }
+    updateEvents([...events, clone])
+    handleSwitchEvent(clone.id)
+  }
+
+  const handleBackupEvent = async (eventId: string) => {
+    const event = events.find(e => e.id === eventId)
+    if (!event) return
+    const backup = createBackup(event, await readBackupRecords(eventId))
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = backupFileName(backup)
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleRestoreBackup = async (backup: EventBackup, plan: RestorePlan) => {
+    if (eventLocked) return
+    const target = plan.mode === 'new_event'
+      ? createEvent(backup.eventSettings)
+      : events.find(e => e.id === (plan.mode === 'replace' ? backup.event.id : activeEventId))
+    if (!target || isArchived(target)) return
+
+    const results = await writeBackupRecords(target.id, plan.records)
+    const failed = results.find(result => !result.success)
+    if (failed) {
+      reportWrite(failed)
+      return
+    }
+
+    if (plan.mode === 'new_event') {
+      updateEvents([...events, target])
+      handleSwitchEvent(target.id)
+    } else if (plan.mode === 'replace') {
+      updateEvents(events.map(e => e.id === target.id ? { ...e, settings: backup.eventSettings } : e))
+      if (target.id === activeEventId) loadEventData(target.id)
+    } else {
+      loadEventData(target.id)
+    }
+    alert(`Backup of "${backup.eventSettings.eventName}" restored into "${target.settings.eventName}".`)
+  }
+
+  const handleArchiveChange = (eventId: string, archived: boolean) => {
+    if (archived && !confirm('Archive this event? Its data stays viewable but can no longer be changed.')) return
+    updateEvents(events.map(e => e.id === eventId
+      ? { ...e, archivedAt: archived ? new Date().toISOString() : undefined }
+      : e
+    ))
+    if (archived && eventId === activeEventId && (activeSection === 'evaluate' || activeSection === 'queue')) {
+      setActiveSection('dashboard')
+    }
+  }
+
+  const handleEventSettingsChange = (settings: EventSettings) => {
+    if (readOnly) return
+    updateEvents(events.map(e => e.id === activeEventId ? { ...e, settings } : e))
+  }
+
+  const handleCriteriaChange = (next: CriterionDefinition[]) => {
+    if (readOnly) return
+    setCriteria(next)
+    saveEventData('criteria', next)
+  }
+
+  const handleJudgesChange = (next: Judge[]) => {
+    if (readOnly) return
+    setJudges(next)
+    saveEventData('judges', next)
+  }
+
+  const handleRankingChange = (next: RankingSettings) => {
+    if (readOnly) return
+    setRanking(next)
+    saveEventData('ranking', next)
+  }
+
+  const handleAwardsChange = (next: AwardSettings) => {
+    if (readOnly) return
+    setAwards(next)
+    saveEventData('awards', next)
+  }
+
+  // Publishing stays open on archived events; it doesn't change judging data
+  const handlePublishResults = async (settings: PublishSettings, resetLinks: boolean) => {
+    if (!activeEvent) return
+    const rankedEntries = aggregatedEvaluations.filter(isRanked)
+    // Tokens come from storage, not the panel's draft, so sent links survive a republish
+    const next = withTeamTokens(
+      { ...settings, teamTokens: publishSettings.teamTokens },
+      rankedEntries.map(e => e.key),
+      resetLinks
+    )
+    const results = await buildPublicResults(
+      activeEvent,
+      rankEntries(rankedEntries, ranking, submissions),
+      computeAwards(rankedEntries, awards, criteria, ranking, submissions),
+      criteria,
+      submissions,
+      next
+    )
+    setPublishSettings(next)
+    saveEventData('publishSettings', next)
+    setPublishedResults(results)
+    saveEventData('publishedResults', results)
+  }
+
+  const handleUnpublishResults = () => {
+    if (!confirm('Unpublish the results? The public page stops showing them in this browser; downloaded or hosted copies are not affected.')) return
+    setPublishedResults(null)
+    saveEventData('publishedResults', null)
+  }
+
+  const handleManualWinnerChange = (categoryId: string, entryKey: string) => {
+    if (readOnly) return
+    handleAwardsChange({
+      ...awards,
+      categories: awards.categories.map(c => c.id === categoryId ? { ...c, manualWinnerKey: entryKey } : c)
+    })
+  }
+
+  const handleAssignmentPlanChange = (next: AssignmentPlan) => {
+    if (readOnly) return
+    setAssignmentPlan(next)
+    saveEventData('assignmentPlan', next)
+  }
+
+  const handleSubmissionsChange = (next: Submission[]) => {
+    if (readOnly) return
+    setSubmissions(next)
+    saveEventData('submissions', next)
+  }
+
+  // A judge re-saving the same game adds a revision to their earlier sheet. Reads
+  // the ref so queue workers finishing in the same render don't overwrite each other
+  const handleSaveEvaluation = (
+    evaluation: SavedEvaluation,
+    author: Judge | null,
+    rescoredBy: EvaluationRevision['rescoredBy']
+  ) => {
+    if (readOnly) return
+    const previous = findJudgeSheet(evaluationsRef.current, evaluation)
+    const revised = recordRevision(previous, evaluation, author, rescoredBy, criteria)
+    const next = upsertJudgeSheet(evaluationsRef.current, revised)
+    replaceEvaluations(next)
+    saveEventData('evaluations', next)
+  }
+
+  // Sheets from a JSON export; ones already stored (same id) are skipped, and
+  // an imported sheet replaces the same judge's earlier sheet for that game
+  const handleImportSheets = (sheets: SavedEvaluation[]): number => {
+    if (readOnly) return 0
+    const fresh = sheets.filter(sheet => !evaluationsRef.current.some(e => e.id === sheet.id))
+    if (fresh.length === 0) return 0
+    const next = fresh.reduce(upsertJudgeSheet, evaluationsRef.current)
+    replaceEvaluations(next)
+    saveEventData('evaluations', next)
+    return fresh.length
+  }
+
+  const handleEditSheet = (sheetId: string) => {
+    const sheet = evaluations.find(e => e.id === sheetId)
+    if (!sheet) return
+    setEditingEvaluation(sheet)
+    setActiveSection('evaluate')
+  }
+
+  const handleEditDone = () => {
+    setEditingEvaluation(null)
+    setActiveSection('leaderboard')
+  }
+
+  const applyModeration = (state: ModerationState, log: AuditEntry[]) => {
+    if (state.evaluations !== evaluationsRef.current) {
+      replaceEvaluations(state.evaluations)
+      saveEventData('evaluations', state.evaluations)
+    }
+    setEntryStatuses(state.entryStatuses)
+    saveEventData('entryStatuses', state.entryStatuses)
+    setAuditLog(log)
+    saveEventData('auditLog', log)
+  }
+
+  const handleModerate = (entry: AggregatedEvaluation, action: AuditAction, reason?: string) => {
+    if (readOnly) return
+    const actor = judges.find(j => j.id === activeJudgeId)?.name
+    const { state, audit } = moderateEntry(
+      { evaluations: evaluationsRef.current, entryStatuses },
+      entry,
+      action,
+      { reason, actor }
+    )
+    applyModeration(state, [...auditLog, audit])
+  }
+
+  const handleUndoAudit = (auditId: string) => {
+    const audit = auditLog.find(a => a.id === auditId)
+    if (readOnly || !audit || !canUndo(auditLog, audit)) return
+    const state = undoModeration({ evaluations: evaluationsRef.current, entryStatuses }, audit)
+    const undoneAt = new Date().toISOString()
+    applyModeration(state, auditLog.map(a => a.id === auditId ? { ...a, undoneAt } : a))
+  }
+
+  const handleActiveJudgeChange = (judgeId: string) => {
+    if (readOnly) return
+    setActiveJudgeId(judgeId)
+    saveEventData('activeJudgeId', judgeId)
+  }
+
+  const handleAggregationMethodChange = (method: AggregationMethod) => {
+    if (readOnly) return
+    setAggregationMethod(method)
+    saveEventData('aggregationMethod', method)
+  }
+
+  const handleNormalizationChange = (method: NormalizationMethod) => {
+    if (readOnly) return
+    setNormalization(method)
+    saveEventData('normalization', method)
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950">
       {/* Header */}
@@ -1337,6 +3202,19 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <Select value={activeEventId} onValueChange={handleSwitchEvent} disabled={eventLocked}>
+                <SelectTrigger className="w-[240px] bg-gray-950 border-gray-700 text-white">
+                  <CalendarDays className="h-4 w-4 mr-2 text-purple-400" />
+                  <SelectValue placeholder="Select event" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-gray-700">
+                  {sortEvents(events).map(event => (
+                    <SelectItem key={event.id} value={event.id}>
+                      {event.settings.eventName}{isArchived(event) ? ' (Archived)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <div className="text-right">
                 <div className="text-sm font-medium text-gray-300">Judge Panel</div>
                 <div className="text-xs text-gray-500">AI-Powered Evaluation</div>
@@ -1367,9 +3245,36 @@ export default function Home() {
             </button>
 
             <button
-              onClick={() => setActiveSection('evaluate')}
+              onClick={() => setActiveSection('events')}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
+                activeSection === 'events'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <CalendarDays className="h-5 w-5" />
+              <span className="font-medium">Events</span>
+            </button>
+
+            <button
+              onClick={() => setActiveSection('submissions')}
               className={cn(
                 'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
+                activeSection === 'submissions'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <FileText className="h-5 w-5" />
+              <span className="font-medium">Submissions</span>
+            </button>
+
+            <button
+              onClick={() => setActiveSection('evaluate')}
+              disabled={readOnly}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none',
                 activeSection === 'evaluate'
                   ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
                   : 'text-gray-400 hover:bg-gray-800 hover:text-white'
@@ -1379,6 +3284,36 @@ export default function Home() {
               <span className="font-medium">Evaluate</span>
             </button>
 
+            <button
+              onClick={() => setActiveSection('queue')}
+              disabled={readOnly}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none',
+                activeSection === 'queue'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <ListChecks className="h-5 w-5" />
+              <span className="font-medium">Queue</span>
+              {queue.runState !== 'idle' && (
+                <Loader2 className="h-4 w-4 ml-auto animate-spin" />
+              )}
+            </button>
+
+            <button
+              onClick={() => setActiveSection('assignments')}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
+                activeSection === 'assignments'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <ClipboardList className="h-5 w-5" />
+              <span className="font-medium">Assignments</span>
+            </button>
+
             <button
               onClick={() => setActiveSection('leaderboard')}
               className={cn(
@@ -1392,6 +3327,45 @@ export default function Home() {
               <span className="font-medium">Leaderboard</span>
             </button>
 
+            <button
+              onClick={() => setActiveSection('compare')}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
+                activeSection === 'compare'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <Scale className="h-5 w-5" />
+              <span className="font-medium">Compare</span>
+            </button>
+
+            <button
+              onClick={() => setActiveSection('awards')}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
+                activeSection === 'awards'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <Award className="h-5 w-5" />
+              <span className="font-medium">Awards</span>
+            </button>
+
+            <button
+              onClick={() => setActiveSection('analytics')}
+              className={cn(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors',
+                activeSection === 'analytics'
+                  ? 'bg-gradient-to-r from-purple-600 to-cyan-600 text-white'
+                  : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              )}
+            >
+              <Activity className="h-5 w-5" />
+              <span className="font-medium">Analytics</span>
+            </button>
+
             <button
               onClick={() => setActiveSection('settings')}
               className={cn(
@@ -1410,28 +3384,170 @@ export default function Home() {
         {/* Main Content Area */}
         <main className="flex-1 p-8">
           <div className="container mx-auto max-w-7xl">
+            {storageError && (
+              <Alert className="mb-6 bg-red-500/10 border-red-500/30">
+                <AlertCircle className="h-4 w-4 text-red-400" />
+                <AlertTitle className="text-red-400">Storage error</AlertTitle>
+                <AlertDescription className="text-red-300">{storageError}</AlertDescription>
+              </Alert>
+            )}
+
+            {readOnly && (
+              <Alert className="mb-6 bg-gray-500/10 border-gray-500/30">
+                <Archive className="h-4 w-4 text-gray-400" />
+                <AlertTitle className="text-gray-300">Archived event</AlertTitle>
+                <AlertDescription className="text-gray-400">
+                  {eventSettings.eventName} is archived and read-only. Restore it from Events to make changes.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {activeSection === 'dashboard' && (
               <DashboardSection
-                evaluations={evaluations}
-                onNewEvaluation={() => setActiveSection('evaluate')}
+                evaluations={aggregatedEvaluations}
+                criteria={criteria}
+                ranking={ranking}
+                submissions={submissions}
+                readOnly={readOnly}
+                onNewEvaluation={() => {
+                  setEditingEvaluation(null)
+                  setActiveSection('evaluate')
+                }}
                 onViewLeaderboard={() => setActiveSection('leaderboard')}
+                onFilterLeaderboard={(filter) => {
+                  setDashboardFilter(filter)
+                  setActiveSection('leaderboard')
+                }}
+              />
+            )}
+
+            {activeSection === 'events' && (
+              <EventsSection
+                events={events}
+                activeEventId={activeEventId}
+                locked={eventLocked}
+                onSwitch={handleSwitchEvent}
+                onCreate={handleCreateEvent}
+                onClone={handleCloneEvent}
+                onArchiveChange={handleArchiveChange}
+                onBackup={handleBackupEvent}
+                onRestore={handleRestoreBackup}
+              />
+            )}
+
+            {activeSection === 'submissions' && (
+              <SubmissionsSection
+                key={activeEventId}
+                submissions={submissions}
+                onSubmissionsChange={handleSubmissionsChange}
+                readOnly={readOnly}
+              />
+            )}
+
+            {activeSection === 'evaluate' && !readOnly && (
+              <EvaluateSection
+                key={`${activeEventId}-${editingEvaluation?.id || 'new'}`}
+                criteria={criteria}
+                eventSettings={eventSettings}
+                judges={judges}
+                activeJudgeId={activeJudgeId}
+                onActiveJudgeChange={handleActiveJudgeChange}
+                submissions={submissions}
+                assignmentPlan={assignmentPlan}
+                evaluations={evaluations}
+                onEnqueue={queue.enqueue}
+                onSave={handleSaveEvaluation}
+                editing={editingEvaluation}
+                onEditDone={handleEditDone}
               />
             )}
 
-            {activeSection === 'evaluate' && (
-              <EvaluateSection weights={weights} eventSettings={eventSettings} />
+            {activeSection === 'queue' && !readOnly && (
+              <EvaluationQueuePanel queue={queue} />
+            )}
+
+            {activeSection === 'assignments' && (
+              <AssignmentPlanner
+                plan={assignmentPlan}
+                submissions={submissions}
+                judges={judges}
+                evaluations={evaluations}
+                onChange={handleAssignmentPlanChange}
+                readOnly={readOnly}
+              />
             )}
 
             {activeSection === 'leaderboard' && (
-              <LeaderboardSection evaluations={evaluations} />
+              <LeaderboardSection
+                evaluations={aggregatedEvaluations}
+                criteria={criteria}
+                aggregationMethod={aggregationMethod}
+                onAggregationMethodChange={handleAggregationMethodChange}
+                normalization={normalization}
+                onNormalizationChange={handleNormalizationChange}
+                onEditSheet={handleEditSheet}
+                onModerate={handleModerate}
+                auditLog={auditLog}
+                onUndoAudit={handleUndoAudit}
+                ranking={ranking}
+                submissions={submissions}
+                conflictedSheets={conflictedSheets}
+                dashboardFilter={dashboardFilter}
+                onClearDashboardFilter={() => setDashboardFilter(null)}
+                eventSettings={eventSettings}
+                onImportSheets={handleImportSheets}
+                eventId={activeEventId}
+                publishSettings={publishSettings}
+                publishedResults={publishedResults}
+                onPublish={handlePublishResults}
+                onUnpublish={handleUnpublishResults}
+                awards={awards}
+                readOnly={readOnly}
+              />
+            )}
+
+            {activeSection === 'compare' && (
+              <GameComparison
+                entries={aggregatedEvaluations.filter(e => !isArchivedEntry(e))}
+                criteria={criteria}
+                ranking={ranking}
+                submissions={submissions}
+                comparedKeys={comparedKeys}
+                onComparedKeysChange={setComparedKeys}
+              />
+            )}
+
+            {activeSection === 'awards' && (
+              <AwardsSection
+                evaluations={aggregatedEvaluations}
+                awards={awards}
+                criteria={criteria}
+                ranking={ranking}
+                submissions={submissions}
+                onManualWinnerChange={handleManualWinnerChange}
+                readOnly={readOnly}
+              />
+            )}
+
+            {activeSection === 'analytics' && (
+              <ReliabilityAnalytics evaluations={countedEvaluations} criteria={criteria} />
             )}
 
             {activeSection === 'settings' && (
               <SettingsSection
+                key={activeEventId}
                 eventSettings={eventSettings}
-                onEventSettingsChange={setEventSettings}
-                weights={weights}
-                onWeightsChange={setWeights}
+                onEventSettingsChange={handleEventSettingsChange}
+                criteria={criteria}
+                onCriteriaChange={handleCriteriaChange}
+                judges={judges}
+                onJudgesChange={handleJudgesChange}
+                ranking={ranking}
+                onRankingChange={handleRankingChange}
+                awards={awards}
+                onAwardsChange={handleAwardsChange}
+                submissions={submissions}
+                readOnly={readOnly}
               />
             )}
           </div>
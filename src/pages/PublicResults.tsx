@@ -0,0 +1,323 @@
+/**
+ * PUBLIC RESULTS PAGE - Read-only leaderboard published by the organizers
+ */
+
+import { useEffect, useState } from 'react'
+import { useLocation, useParams, useSearchParams } from 'react-router-dom'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { FEEDBACK_SECTION_LABELS } from '@/lib/comparison'
+import { canSealFeedback, findTeamFeedback, parsePublicResults } from '@/lib/public-results'
+import { readEventRecord } from '@/lib/storage'
+import { isWebUrl } from '@/lib/submissions'
+import type { Feedback, PublicField, PublicResults, PublicResultsEntry } from '@/types'
+import { AlertCircle, Award, CheckCircle, ChevronDown, ChevronUp, Loader2, Trophy, Upload, XCircle } from 'lucide-react'
+
+type LoadState = 'loading' | 'ready' | 'missing' | 'error'
+
+function FeedbackLists({ feedback }: { feedback: Feedback }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {(Object.keys(FEEDBACK_SECTION_LABELS) as (keyof Feedback)[]).map((section) => (
+        feedback[section]?.length > 0 && (
+          <div key={section}>
+            <div className="text-sm font-semibold text-gray-300 mb-1">{FEEDBACK_SECTION_LABELS[section]}</div>
+            <ul className="list-disc pl-5 space-y-1 text-sm text-gray-400">
+              {feedback[section].map((point, i) => <li key={i}>{point}</li>)}
+            </ul>
+          </div>
+        )
+      ))}
+    </div>
+  )
+}
+
+export default function PublicResultsPage() {
+  const { eventId } = useParams()
+  const [searchParams] = useSearchParams()
+  const { hash } = useLocation()
+  const snapshotUrl = searchParams.get('snapshot')
+  const token = new URLSearchParams(hash.slice(1)).get('team')
+
+  const [results, setResults] = useState<PublicResults | null>(null)
+  const [state, setState] = useState<LoadState>('loading')
+  const [error, setError] = useState('')
+  const [teamFeedback, setTeamFeedback] = useState<{ entry: PublicResultsEntry; feedback: Feedback } | null>(null)
+  const [teamLinkFailed, setTeamLinkFailed] = useState(false)
+  const [expandedRow, setExpandedRow] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (snapshotUrl) {
+          const response = await fetch(snapshotUrl)
+          if (!response.ok) throw new Error(`Could not fetch the results (HTTP ${response.status})`)
+          const parsed = parsePublicResults(await response.text())
+          if (!parsed.results) throw new Error(parsed.error)
+          setResults(parsed.results)
+          setState('ready')
+          return
+        }
+        const saved = await readEventRecord(eventId || '', 'publishedResults', null)
+        setResults(saved)
+        setState(saved ? 'ready' : 'missing')
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e))
+        setState('error')
+      }
+    }
+    load()
+  }, [eventId, snapshotUrl])
+
+  useEffect(() => {
+    setTeamFeedback(null)
+    setTeamLinkFailed(false)
+    if (!results || !token || results.feedback !== 'team' || !canSealFeedback()) {
+      setTeamLinkFailed(Boolean(results && token))
+      return
+    }
+    let cancelled = false
+    findTeamFeedback(results, token).then(found => {
+      if (cancelled) return
+      setTeamFeedback(found)
+      setTeamLinkFailed(!found)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [results, token])
+
+  const handleFile = async (file: File) => {
+    const parsed = parsePublicResults(await file.text())
+    if (!parsed.results) {
+      alert(parsed.error)
+      return
+    }
+    setResults(parsed.results)
+    setState('ready')
+  }
+
+  const has = (field: PublicField) => Boolean(results?.fields.includes(field))
+  const hasDetails = (entry: PublicResultsEntry) =>
+    Boolean(entry.summary || entry.members?.length || entry.buildUrl || entry.repoUrl || entry.criterionScores || entry.feedback)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950">
+      <header className="bg-gray-900/80 border-b border-gray-800 backdrop-blur-sm">
+        <div className="container mx-auto px-6 py-4 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-purple-600 to-cyan-600 flex items-center justify-center">
+            <Trophy className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-white">{results?.eventName || 'Game Jam Results'}</h1>
+            <p className="text-xs text-gray-400">{results?.themeDescription || 'Official results'}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        {state === 'loading' && (
+          <div className="flex items-center justify-center gap-2 py-24 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading results...
+          </div>
+        )}
+
+        {(state === 'missing' || state === 'error') && (
+          <Card className="bg-gray-900 border-gray-800">
+            <CardContent className="py-12 text-center space-y-4">
+              <AlertCircle className="h-10 w-10 mx-auto text-gray-600" />
+              <p className="text-gray-300">
+                {state === 'error' ? error : 'Results for this event have not been published here.'}
+              </p>
+              <Label className="inline-flex items-center gap-2 px-4 h-10 rounded-md border border-gray-700 text-gray-200 hover:bg-gray-800 cursor-pointer">
+                <Upload className="h-4 w-4" />
+                Open a Results File
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleFile(file)
+                    e.target.value = ''
+                  }}
+                />
+              </Label>
+            </CardContent>
+          </Card>
+        )}
+
+        {state === 'ready' && results && (
+          <>
+            <p className="text-sm text-gray-500">
+              Published {new Date(results.publishedAt).toLocaleString()}
+            </p>
+
+            {teamFeedback && (
+              <Card className="bg-purple-500/10 border-purple-500/30">
+                <CardHeader>
+                  <CardTitle className="text-white">Feedback for {teamFeedback.entry.teamName}</CardTitle>
+                  <CardDescription className="text-gray-300">
+                    {teamFeedback.entry.gameName} · Rank {teamFeedback.entry.rank}. Only your team's link opens this feedback.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FeedbackLists feedback={teamFeedback.feedback} />
+                </CardContent>
+              </Card>
+            )}
+            {teamLinkFailed && (
+              <p className="text-sm text-orange-400">
+                This team link does not open any feedback in these results. Ask the organizers for a current link.
+              </p>
+            )}
+
+            {results.awards.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {results.awards.map((award) => (
+                  <Card key={award.name} className="bg-gray-900 border-yellow-500/30">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-lg text-gray-200 flex items-center gap-2">
+                        <Award className="h-5 w-5 text-yellow-400" />
+                        {award.name}
+                      </CardTitle>
+                      {award.description && (
+                        <CardDescription className="text-gray-400">{award.description}</CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-xl font-bold text-white">{award.gameName}</div>
+                      <div className="text-sm text-gray-400">{award.teamName}</div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            <Card className="bg-gray-900 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-gray-200">Leaderboard</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-gray-800 hover:bg-gray-800/50">
+                        <TableHead className="text-gray-300">Rank</TableHead>
+                        <TableHead className="text-gray-300">Game</TableHead>
+                        <TableHead className="text-gray-300">Team</TableHead>
+                        {has('score') && <TableHead className="text-gray-300 text-right">Score</TableHead>}
+                        {has('judge_count') && <TableHead className="text-gray-300 text-right">Judges</TableHead>}
+                        {has('compliance') && <TableHead className="text-gray-300">Rules</TableHead>}
+                        <TableHead className="text-gray-300"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.entries.map((entry) => {
+                        const expanded = expandedRow === entry.key
+                        const isTeam = teamFeedback?.entry.key === entry.key
+                        return [
+                          <TableRow
+                            key={entry.key}
+                            className={isTeam ? 'border-gray-800 bg-purple-500/10 hover:bg-purple-500/20' : 'border-gray-800 hover:bg-gray-800/50'}
+                          >
+                            <TableCell className="font-bold text-white">
+                              {entry.tied ? `T-${entry.rank}` : entry.rank}
+                            </TableCell>
+                            <TableCell className="text-white font-semibold">{entry.gameName}</TableCell>
+                            <TableCell className="text-gray-400">{entry.teamName}</TableCell>
+                            {has('score') && (
+                              <TableCell className="text-right text-cyan-400 font-semibold">
+                                {entry.percentage?.toFixed(1)}%
+                              </TableCell>
+                            )}
+                            {has('judge_count') && (
+                              <TableCell className="text-right text-gray-400">{entry.judgeCount}</TableCell>
+                            )}
+                            {has('compliance') && (
+                              <TableCell>
+                                {entry.compliant ? (
+                                  <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                    Compliant
+                                  </Badge>
+                                ) : (
+                                  <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                                    <XCircle className="h-3 w-3 mr-1" />
+                                    Not compliant
+                                  </Badge>
+                                )}
+                              </TableCell>
+                            )}
+                            <TableCell className="text-right">
+                              {hasDetails(entry) && (
+                                <button
+                                  onClick={() => setExpandedRow(expanded ? null : entry.key)}
+                                  className="text-gray-400 hover:text-white"
+                                  aria-label={expanded ? 'Hide details' : 'Show details'}
+                                >
+                                  {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                </button>
+                              )}
+                            </TableCell>
+                          </TableRow>,
+                          expanded && (
+                            <TableRow key={`${entry.key}-details`} className="border-gray-800 hover:bg-transparent">
+                              <TableCell colSpan={7} className="bg-gray-950/50">
+                                <div className="space-y-4 py-2">
+                                  {entry.summary && <p className="text-sm text-gray-300">{entry.summary}</p>}
+                                  {entry.members?.length > 0 && (
+                                    <div className="text-sm text-gray-400">Team: {entry.members.join(', ')}</div>
+                                  )}
+                                  {(entry.buildUrl || entry.repoUrl) && (
+                                    <div className="flex gap-4 text-sm">
+                                      {entry.buildUrl && (
+                                        isWebUrl(entry.buildUrl) ? (
+                                          <a href={entry.buildUrl} target="_blank" rel="noreferrer" className="text-purple-400 hover:underline">
+                                            Play
+                                          </a>
+                                        ) : (
+                                          <span className="text-gray-500 break-all">Play: {entry.buildUrl}</span>
+                                        )
+                                      )}
+                                      {entry.repoUrl && (
+                                        isWebUrl(entry.repoUrl) ? (
+                                          <a href={entry.repoUrl} target="_blank" rel="noreferrer" className="text-purple-400 hover:underline">
+                                            Source
+                                          </a>
+                                        ) : (
+                                          <span className="text-gray-500 break-all">Source: {entry.repoUrl}</span>
+                                        )
+                                      )}
+                                    </div>
+                                  )}
+                                  {entry.criterionScores && results.criteria.length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                      {results.criteria.map((criterion) => (
+                                        <Badge key={criterion.id} className="bg-gray-800 text-gray-300 border-gray-700">
+                                          {criterion.label}: {entry.criterionScores[criterion.id] ?? '–'} / {criterion.scaleMax}
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {entry.feedback && <FeedbackLists feedback={entry.feedback} />}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )
+                        ]
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
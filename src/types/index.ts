@@ -258,4 +258,491 @@ export function isCriticalEvent(event: SSEEventBase & { type?: SSEEventType }):
     'validation_error',
   ]
   return criticalTypes.includes(event.type as SSEEventType)
-}
\ No newline at end of file
+}
+
+// =============================================================================
+// Game Jam Judging Types
+// =============================================================================
+
+/**
+ * Single criterion row returned by the Game Evaluation Agent
+ */
+export interface ScoreBreakdownItem {
+  criterion: string
+  raw_score: number
+  weight: number
+  weighted_score: number
+}
+
+export interface RuleCompliance {
+  compliant: boolean
+  assessment: string
+  theme_alignment: string
+}
+
+export interface Feedback {
+  strengths: string[]
+  areas_for_growth: string[]
+  creative_insights: string[]
+  learning_opportunities: string[]
+}
+
+/**
+ * Evaluation result - shape from response_schemas/game_evaluation_agent_response.json
+ */
+export interface EvaluationResult {
+  game_name: string
+  team_name: string
+  weighted_score: number
+  max_possible_score: number
+  percentage_score: number
+  score_breakdown: ScoreBreakdownItem[]
+  rule_compliance: RuleCompliance
+  feedback: Feedback
+  rank_recommendation: string
+  summary: string
+}
+
+export interface EvaluationMetadata {
+  agent_name: string
+  timestamp: string
+  evaluation_version: string
+}
+
+/**
+ * Anchored descriptor for a band of scores on a criterion's scale
+ */
+export interface RubricLevel {
+  min: number
+  max: number
+  descriptor: string
+}
+
+/**
+ * One judging criterion - configured per jam in Settings
+ */
+export interface CriterionDefinition {
+  // Stable key sent to the agent and stored in score_breakdown
+  id: string
+  label: string
+  description: string
+  scaleMin: number
+  scaleMax: number
+  // Percentage weight; all criteria add up to 100
+  weight: number
+  // Ordered low to high; criteria saved before rubrics existed have none
+  levels?: RubricLevel[]
+}
+
+/**
+ * Weight per criterion id
+ */
+export type CriteriaWeights = Record<string, number>
+
+/**
+ * Raw score per criterion id; a missing key means not scored yet
+ */
+export type CriteriaScores = Record<string, number>
+
+/**
+ * A number the agent returned that differs from the local computation
+ */
+export interface ScoreDiscrepancy {
+  field:
+    | 'raw_score'
+    | 'weight'
+    | 'weighted_score'
+    | 'missing_criterion'
+    | 'total_weighted_score'
+    | 'max_possible_score'
+    | 'percentage_score'
+  // Set for per-criterion rows of score_breakdown
+  criterion?: string
+  agentValue: number | null
+  localValue: number
+}
+
+/**
+ * Member of the judging panel
+ */
+export interface Judge {
+  id: string
+  name: string
+  // Unavailable judges get no new assignments
+  unavailable?: boolean
+  // Most games the assignment planner may give this judge; unset means no limit
+  maxAssignments?: number
+  // Declared conflicts of interest; conflicted games can't be scored by this judge
+  conflicts?: ConflictDeclaration[]
+}
+
+/**
+ * A judge's declared conflict of interest with a team, a team member or one
+ * submission
+ */
+export interface ConflictDeclaration {
+  kind: 'team' | 'member' | 'submission'
+  // Team name, member name or submission id
+  value: string
+  declaredAt: string
+}
+
+/**
+ * One judge's score sheet for one game, as saved by EvaluateSection
+ */
+export interface SavedEvaluation {
+  id: string
+  result: EvaluationResult
+  metadata: EvaluationMetadata
+  savedAt: string
+  // Judge identity - missing on sheets saved before the judge panel existed
+  judgeId?: string
+  judgeName?: string
+  // Raw scores the judge entered
+  scores?: CriteriaScores
+  // Registered submission this sheet scores - missing on legacy free-typed sheets
+  submissionId?: string
+  // Where the agent's arithmetic disagreed with the local scoring engine
+  scoreDiscrepancies?: ScoreDiscrepancy[]
+  // Judge's notes, kept so the sheet can be reopened and edited
+  description?: string
+  complianceNotes?: string
+  // Latest revision number and every revision, oldest first - missing on
+  // sheets saved before revisions were tracked
+  revision?: number
+  history?: EvaluationRevision[]
+}
+
+/**
+ * One field that differs between two revisions of a score sheet
+ */
+export interface RevisionChange {
+  field: string
+  label: string
+  before: string
+  after: string
+}
+
+/**
+ * Snapshot of a score sheet as it was saved
+ */
+export interface EvaluationRevision {
+  revision: number
+  savedAt: string
+  // Who saved this revision - may differ from the sheet's judge
+  authorId?: string
+  authorName?: string
+  // 'agent' when the agent produced the result, 'local' when only the
+  // numbers were recomputed from the edited scores
+  rescoredBy: 'agent' | 'local'
+  result: EvaluationResult
+  scores?: CriteriaScores
+  description?: string
+  complianceNotes?: string
+  // Differences from the previous revision; empty for the first
+  changes: RevisionChange[]
+}
+
+export interface EventSettings {
+  eventName: string
+  themeDescription: string
+  rules: string[]
+}
+
+/**
+ * One jam; its criteria, judges, submissions and evaluations are stored under
+ * keys scoped to its id
+ */
+export interface JamEvent {
+  id: string
+  settings: EventSettings
+  createdAt: string
+  // Archived events are read-only
+  archivedAt?: string
+}
+
+/**
+ * How several judges' sheets are combined into one result per game
+ */
+export type AggregationMethod = 'mean' | 'median' | 'trimmed_mean'
+
+/**
+ * Per-judge correction applied to raw criterion scores before aggregation, so
+ * a harsh or lenient judge doesn't move every game they score
+ */
+export type NormalizationMethod = 'none' | 'z_score' | 'min_max' | 'rank'
+
+/**
+ * How tied entries are numbered: competition "1224", dense "1223", ordinal "1234"
+ */
+export type RankingMode = 'competition' | 'dense' | 'ordinal'
+
+/**
+ * Applied in order when two entries have the same percentage score
+ */
+export interface TieBreaker {
+  kind: 'criterion' | 'judge_count' | 'submitted_at'
+  // Set for criterion tie-breakers; the higher weighted score wins
+  criterionId?: string
+}
+
+export interface RankingSettings {
+  mode: RankingMode
+  tieBreakers: TieBreaker[]
+}
+
+/**
+ * How an award's winner is chosen: one criterion's score, a custom mix of
+ * criteria, or picked by the organizers
+ */
+export type AwardFormula = 'criterion' | 'weighted' | 'manual'
+
+export interface AwardCategory {
+  id: string
+  name: string
+  description: string
+  formula: AwardFormula
+  // Used by the criterion formula
+  criterionId?: string
+  // Used by the weighted formula: criterion id -> relative weight
+  weights?: CriteriaWeights
+  // Used by the manual formula: the chosen leaderboard entry key
+  manualWinnerKey?: string
+  // Eligibility filters
+  compliantOnly: boolean
+  // Only submissions carrying this tag (e.g. "student") can win
+  requiredTag?: string
+}
+
+export interface AwardSettings {
+  categories: AwardCategory[]
+  // A team wins at most one award; categories are settled in order
+  oneWinnerPerTeam: boolean
+}
+
+/**
+ * All score sheets for one game, combined into a single ranked result
+ */
+export interface AggregatedEvaluation {
+  key: string
+  result: EvaluationResult
+  sheets: SavedEvaluation[]
+  judgeCount: number
+  lastSavedAt: string
+  // The result before judge normalization; set only when normalization is on
+  rawResult?: EvaluationResult
+  // Set when the entry has been archived or disqualified
+  status?: EntryStatus
+}
+
+/**
+ * Organizer decision taking an entry out of the ranking
+ */
+export interface EntryStatus {
+  // Archived entries are hidden; disqualified entries stay visible but unranked
+  standing: 'archived' | 'disqualified'
+  reason?: string
+  changedAt: string
+  changedBy?: string
+}
+
+export type AuditAction = 'delete' | 'archive' | 'disqualify' | 'restore'
+
+/**
+ * One leaderboard moderation action, with what is needed to undo it
+ */
+export interface AuditEntry {
+  id: string
+  at: string
+  action: AuditAction
+  entryKey: string
+  gameName: string
+  teamName: string
+  actor?: string
+  reason?: string
+  // Entry status before the action; null when it had none
+  previousStatus: EntryStatus | null
+  // Sheets removed by a delete
+  removedSheets?: SavedEvaluation[]
+  undoneAt?: string
+}
+
+/**
+ * Game registered for the jam - the single source of truth for names
+ */
+export interface Submission {
+  id: string
+  gameName: string
+  teamName: string
+  members: string[]
+  description: string
+  buildUrl: string
+  repoUrl: string
+  tags: string[]
+  createdAt: string
+}
+
+/**
+ * Field of an agent response that did not match its response schema
+ */
+export interface ValidationIssue {
+  path: string
+  expected: string
+  received: string
+  // Safe mismatches are coerced, unsafe ones reject the whole response
+  action: 'coerced' | 'rejected'
+  message: string
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled'
+
+/**
+ * Scored sheet waiting for (or done with) a batch run of the evaluation agent
+ */
+export interface EvaluationQueueItem {
+  id: string
+  submissionId: string
+  gameName: string
+  teamName: string
+  judgeId: string
+  judgeName: string
+  description: string
+  scores: CriteriaScores
+  complianceNotes: string
+  status: QueueItemStatus
+  attempts: number
+  error?: string
+  // Kept on failure so the agent's answer can be inspected before a retry
+  raw_response?: string
+  validationIssues?: ValidationIssue[]
+  enqueuedAt: string
+  updatedAt: string
+}
+
+/**
+ * One judge asked to score one submission
+ */
+export interface JudgeAssignment {
+  submissionId: string
+  judgeId: string
+  // Set by hand; regenerating the plan keeps pinned assignments
+  pinned?: boolean
+}
+
+export interface AssignmentPlan {
+  judgesPerSubmission: number
+  assignments: JudgeAssignment[]
+  generatedAt?: string
+}
+
+/**
+ * Leaderboard fields organizers can make public; rank, game and team always are
+ */
+export type PublicField =
+  | 'score'
+  | 'criterion_scores'
+  | 'judge_count'
+  | 'compliance'
+  | 'summary'
+  | 'members'
+  | 'links'
+
+/**
+ * Who can read a team's feedback: nobody, only the team through its link, or
+ * everyone
+ */
+export type FeedbackVisibility = 'hidden' | 'team' | 'public'
+
+export interface PublishSettings {
+  fields: PublicField[]
+  feedback: FeedbackVisibility
+  showAwards: boolean
+  // Where the snapshot file is hosted, so shared links work on other devices
+  snapshotUrl?: string
+  // Leaderboard entry key -> secret in that team's private link
+  teamTokens: Record<string, string>
+}
+
+/**
+ * Feedback encrypted with a team's link token (AES-GCM, base64)
+ */
+export interface SealedFeedback {
+  iv: string
+  data: string
+}
+
+export interface PublicResultsEntry {
+  key: string
+  rank: number
+  tied: boolean
+  gameName: string
+  teamName: string
+  // Each of the following is present only when its field is public
+  percentage?: number
+  criterionScores?: CriteriaScores
+  judgeCount?: number
+  compliant?: boolean
+  summary?: string
+  members?: string[]
+  buildUrl?: string
+  repoUrl?: string
+  feedback?: Feedback
+  sealedFeedback?: SealedFeedback
+}
+
+export interface PublicAward {
+  name: string
+  description: string
+  gameName: string
+  teamName: string
+}
+
+/**
+ * Read-only results published for the public results page; hidden fields are
+ * left out, not just hidden
+ */
+export interface PublicResults {
+  format: 'game-jam-public-results'
+  version: number
+  eventId: string
+  eventName: string
+  themeDescription: string
+  publishedAt: string
+  fields: PublicField[]
+  feedback: FeedbackVisibility
+  criteria: Pick<CriterionDefinition, 'id' | 'label' | 'scaleMin' | 'scaleMax'>[]
+  entries: PublicResultsEntry[]
+  // Winners only; empty when awards are not public
+  awards: PublicAward[]
+}
+
+/**
+ * Records stored once for the whole app
+ */
+export interface GlobalRecords {
+  events: JamEvent[]
+  activeEventId: string
+}
+
+/**
+ * Records stored per event, under keys scoped to the event id
+ */
+export interface EventRecords {
+  criteria: CriterionDefinition[]
+  judges: Judge[]
+  activeJudgeId: string
+  aggregationMethod: AggregationMethod
+  normalization: NormalizationMethod
+  ranking: RankingSettings
+  awards: AwardSettings
+  submissions: Submission[]
+  evaluations: SavedEvaluation[]
+  evaluationQueue: EvaluationQueueItem[]
+  assignmentPlan: AssignmentPlan
+  // Leaderboard entry key -> archive/disqualify decision
+  entryStatuses: Record<string, EntryStatus>
+  auditLog: AuditEntry[]
+  publishSettings: PublishSettings
+  // Last published snapshot; null until results are published
+  publishedResults: PublicResults | null
+}